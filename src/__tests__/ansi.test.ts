@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { AnsiStripper } from '../internal/ansi.js';
+
+const ESC = '\x1b';
+
+function strip(...chunks: string[]): string {
+  const stripper = new AnsiStripper();
+  return chunks.map((chunk) => stripper.push(chunk)).join('');
+}
+
+describe('AnsiStripper', () => {
+  it('passes plain text through', () => {
+    assert.equal(strip('hello\r\nworld'), 'hello\r\nworld');
+  });
+
+  it('removes CSI sequences', () => {
+    assert.equal(strip(`${ESC}[1;32mok${ESC}[0m done${ESC}[2K${ESC}[?2004h`), 'ok done');
+  });
+
+  it('removes OSC sequences ended by BEL or ST', () => {
+    assert.equal(strip(`${ESC}]0;title\x07a${ESC}]8;;http://x${ESC}\\b`), 'ab');
+  });
+
+  it('removes DCS, PM and APC strings', () => {
+    assert.equal(strip(`x${ESC}Pq#0;1${ESC}\\y${ESC}^pm${ESC}\\z${ESC}_apc\x07!`), 'xyz!');
+  });
+
+  it('removes short escapes, including ones with intermediates', () => {
+    assert.equal(strip(`${ESC}(Ba${ESC}=b${ESC}7c${ESC}#8d`), 'abcd');
+  });
+
+  it('handles sequences split across chunks', () => {
+    assert.equal(strip('a', ESC, '[3', '1m', 'b', `${ESC}]0;ti`, 'tle', ESC, '\\c'), 'abc');
+  });
+
+  it('lets a new escape interrupt an unterminated string', () => {
+    assert.equal(strip(`${ESC}]0;never ended${ESC}[1mtext`), 'text');
+  });
+
+  it('treats a doubled ESC as one escape', () => {
+    assert.equal(strip(`${ESC}${ESC}[0mx`), 'x');
+  });
+});
@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { once } from 'node:events';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { NoidClient } from '../client.js';
+import { NoidAPIError } from '../errors.js';
+
+describe('NoidClient.withVm', () => {
+  let server: Server;
+  let client: NoidClient;
+  /** Requests received, as "METHOD /path" */
+  let requests: string[] = [];
+  /** Status for DELETE requests */
+  let deleteStatus = 204;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      requests.push(`${req.method} ${req.url}`);
+      if (req.method === 'POST') {
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ name: 'job', state: 'running', cpus: 1, mem_mib: 256 }));
+      } else if (deleteStatus === 204) {
+        res.writeHead(204).end();
+      } else {
+        res.writeHead(deleteStatus, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ error: 'delete failed' }));
+      }
+    });
+    server.listen(0, '127.0.0.1');
+    await once(server, 'listening');
+    client = new NoidClient({
+      baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      token: 'noid_tok_test',
+      retry: false,
+    });
+  });
+
+  after(() => server.close());
+
+  function reset(status: number): void {
+    requests = [];
+    deleteStatus = status;
+  }
+
+  it('destroys the VM after the callback resolves', async () => {
+    reset(204);
+    assert.equal(await client.withVm('job', async (vm) => vm.name), 'job');
+    assert.deepEqual(requests, ['POST /v1/vms', 'DELETE /v1/vms/job']);
+  });
+
+  it('destroys the VM and rethrows when the callback throws', async () => {
+    reset(500);
+    const failure = new Error('callback failed');
+    await assert.rejects(
+      client.withVm('job', async () => {
+        throw failure;
+      }),
+      (err: unknown) => err === failure,
+    );
+    assert.deepEqual(requests, ['POST /v1/vms', 'DELETE /v1/vms/job']);
+  });
+
+  it('treats a VM that is already gone as destroyed', async () => {
+    reset(404);
+    assert.equal(await client.withVm('job', async () => 'ok'), 'ok');
+  });
+
+  it('reports a failed destroy after a successful callback', async () => {
+    reset(500);
+    await assert.rejects(
+      client.withVm('job', async () => 'ok'),
+      (err: unknown) => err instanceof NoidAPIError && err.statusCode === 500,
+    );
+  });
+});
+
+describe('cleanupOnExit', () => {
+  const fixture = join(__dirname, 'fixtures', 'cleanup-on-exit.ts');
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    it(`destroys created VMs on ${signal}, then exits by the signal`, () => {
+      const child = spawnSync(process.execPath, ['--import', 'tsx', fixture, signal], {
+        encoding: 'utf8',
+        timeout: 20_000,
+      });
+      assert.equal(child.stdout, 'POST /v1/vms\nDELETE /v1/vms/job\n', child.stderr);
+      assert.equal(child.signal, signal);
+    });
+  }
+});
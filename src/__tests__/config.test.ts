@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { loadConfig } from '../config.js';
+import { NoidValidationError } from '../errors.js';
+import type { NoidMiddleware } from '../types.js';
+
+describe('loadConfig', () => {
+  let dir: string;
+  let path: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'noid-config-'));
+    path = join(dir, 'config.toml');
+    await writeFile(
+      path,
+      [
+        'url = "https://noid.example.com"',
+        'token = "noid_tok_top"',
+        '[profiles.staging]',
+        'url = "https://staging.example.com"',
+      ].join('\n'),
+    );
+  });
+
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  it('prefers the profile, then top-level keys, then the environment', () => {
+    const env = { NOID_URL: 'https://env.example.com', NOID_TOKEN: 'noid_tok_env' };
+    assert.deepEqual(
+      [loadConfig({ path, env }), loadConfig({ path, env, profile: 'staging' })].map((c) => [
+        c.baseUrl,
+        c.token,
+      ]),
+      [
+        ['https://noid.example.com', 'noid_tok_top'],
+        ['https://staging.example.com', 'noid_tok_top'],
+      ],
+    );
+  });
+
+  it('passes the other client options through', () => {
+    const middleware: NoidMiddleware[] = [{ request: async (req, next) => next(req) }];
+    const options = loadConfig({
+      path,
+      env: {},
+      timeout: 5000,
+      pingInterval: 1000,
+      retry: false,
+      middleware,
+      cleanupOnExit: true,
+    });
+    assert.deepEqual(options, {
+      baseUrl: 'https://noid.example.com',
+      token: 'noid_tok_top',
+      timeout: 5000,
+      pingInterval: 1000,
+      retry: false,
+      middleware,
+      cleanupOnExit: true,
+    });
+  });
+
+  it('rejects a missing explicit path or profile', () => {
+    assert.throws(
+      () => loadConfig({ path: join(dir, 'missing.toml'), env: {} }),
+      NoidValidationError,
+    );
+    assert.throws(() => loadConfig({ path, env: {}, profile: 'nope' }), NoidValidationError);
+    for (const profile of ['__proto__', 'constructor', 'toString']) {
+      assert.throws(() => loadConfig({ path, env: {}, profile }), NoidValidationError, profile);
+    }
+  });
+});
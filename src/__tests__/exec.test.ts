@@ -0,0 +1,234 @@
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { finished } from 'node:stream/promises';
+import { after, before, describe, it } from 'node:test';
+import { setTimeout as delay } from 'node:timers/promises';
+import { type WebSocket, WebSocketServer } from 'ws';
+import { NoidClient } from '../client.js';
+import { NoidExecError } from '../errors.js';
+import type { VmCommand } from '../exec.js';
+import type { SpawnOptions } from '../types.js';
+
+const PING_MS = 50;
+const CHUNK = Buffer.alloc(4096, 'x');
+const CHUNKS = 128;
+
+describe('VmCommand output backpressure', () => {
+  let server: WebSocketServer;
+  let client: NoidClient;
+
+  before(async () => {
+    // Answers every exec request with CHUNKS stdout frames and exit code 0
+    server = new WebSocketServer({ port: 0 });
+    server.on('connection', (peer: WebSocket) => {
+      peer.once('message', () => {
+        for (let i = 0; i < CHUNKS; i++) peer.send(Buffer.concat([Buffer.from([0x01]), CHUNK]));
+        peer.send(JSON.stringify({ exit_code: 0, timed_out: false, truncated: false }));
+      });
+    });
+    await once(server, 'listening');
+    const { port } = server.address() as AddressInfo;
+    client = new NoidClient({
+      baseUrl: `http://127.0.0.1:${port}`,
+      token: 'noid_tok_test',
+      pingInterval: PING_MS,
+    });
+  });
+
+  after(() => {
+    for (const peer of server.clients) peer.terminate();
+    server.close();
+  });
+
+  it('survives a consumer that stalls for several ping intervals', async () => {
+    const cmd = client.vm('test').spawn(['cat', 'big']);
+    let received = 0;
+    cmd.stdout.on('data', (chunk: Buffer) => {
+      received += chunk.length;
+    });
+    cmd.stdout.pause();
+    await cmd.start();
+
+    await delay(PING_MS * 6);
+    assert.equal(cmd.closeInfo(), undefined, 'connection still open');
+    assert.ok(received < CHUNK.length * CHUNKS);
+
+    cmd.stdout.resume();
+    assert.equal(await cmd.wait(), 0);
+    await finished(cmd.stdout);
+    assert.equal(received, CHUNK.length * CHUNKS);
+  });
+
+  it('keeps reading after a for-await loop exits early', async () => {
+    const cmd = client.vm('test').spawn(['cat', 'big']);
+    for await (const event of cmd) {
+      assert.equal(event.type, 'stdout');
+      await delay(PING_MS); // Let output queue past the iterator's high-water mark
+      break;
+    }
+    assert.equal(await cmd.wait(), 0);
+  });
+
+  it('resumes the socket when a blocked output is destroyed', async () => {
+    const cmd = client.vm('test').spawn(['cat', 'big']);
+    cmd.stdout.on('data', () => {});
+    cmd.stdout.pause();
+    await cmd.start();
+    await delay(PING_MS * 2);
+
+    cmd.stdout.destroy();
+    cmd.stderr.resume();
+    assert.equal(await cmd.wait(), 0);
+    await finished(cmd.stderr);
+  });
+});
+
+describe('VmCommand.signal', () => {
+  let http: Server;
+  let server: WebSocketServer;
+  let baseUrl: string;
+  /** Frames received after each exec request, newest session last */
+  let sessions: (Buffer | string)[][] = [];
+  let features: Record<string, boolean> = {};
+  let capabilityRequests = 0;
+
+  before(async () => {
+    // Serves /v1/capabilities and exec sessions that run until the client closes
+    http = createServer((_req, res) => {
+      capabilityRequests++;
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ features }));
+    });
+    server = new WebSocketServer({ server: http });
+    server.on('connection', (peer: WebSocket) => {
+      const frames: (Buffer | string)[] = [];
+      peer.once('message', () => {
+        sessions.push(frames);
+        peer.on('message', (data: Buffer, isBinary: boolean) => {
+          frames.push(isBinary ? data : data.toString());
+        });
+      });
+    });
+    http.listen(0, '127.0.0.1');
+    await once(http, 'listening');
+    baseUrl = `http://127.0.0.1:${(http.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    for (const peer of server.clients) peer.terminate();
+    server.close();
+    http.close();
+  });
+
+  /** Start a command against a server reporting `serverFeatures`. */
+  async function started(serverFeatures: Record<string, boolean>, options?: SpawnOptions) {
+    features = serverFeatures;
+    sessions = [];
+    capabilityRequests = 0;
+    const client = new NoidClient({ baseUrl, token: 'noid_tok_test' });
+    const cmd = client.vm('test').spawn(['sleep', '60'], options);
+    await cmd.start();
+    return cmd;
+  }
+
+  /** The frames the server saw once `cmd` has finished. */
+  async function framesAfter(cmd: VmCommand): Promise<(Buffer | string)[]> {
+    await cmd.wait();
+    await delay(20); // Let the server read what was sent before the close
+    return sessions[0];
+  }
+
+  it('types ^C for SIGINT on a tty, without a signal frame', async () => {
+    const cmd = await started({ signals: true }, { tty: true });
+    assert.equal(await cmd.signal('SIGINT'), true);
+    cmd.kill('SIGINT');
+    assert.deepEqual(await framesAfter(cmd), [
+      Buffer.from([0x03, 0x03]),
+      Buffer.from([0x03, 0x03]),
+    ]);
+    assert.equal(capabilityRequests, 0);
+  });
+
+  it('looks up features.signals on first use, not on start', async () => {
+    const cmd = await started({ signals: true });
+    assert.equal(capabilityRequests, 0);
+    assert.equal(await cmd.signal('SIGUSR1'), true);
+    assert.equal(await cmd.signal('SIGUSR2'), true);
+    assert.equal(capabilityRequests, 1);
+    cmd.kill();
+    assert.deepEqual(await framesAfter(cmd), [
+      '{"signal":"SIGUSR1"}',
+      '{"signal":"SIGUSR2"}',
+      '{"signal":"SIGTERM"}',
+    ]);
+    assert.deepEqual(cmd.exitStatus(), {
+      code: 143,
+      timedOut: false,
+      signal: 'SIGTERM',
+      signalDelivered: true,
+    });
+  });
+
+  it('reports a signal it cannot deliver', async () => {
+    const cmd = await started({});
+    assert.equal(await cmd.signal('SIGTERM'), false);
+    assert.equal(cmd.kill(), true);
+    assert.deepEqual(await framesAfter(cmd), []);
+    assert.equal(cmd.exitStatus()?.code, 143);
+    assert.equal(cmd.exitStatus()?.signalDelivered, false);
+  });
+
+  it('records SIGTERM as the signal of a timeout', async () => {
+    const cmd = await started({ signals: true }, { timeout: 0.05 });
+    assert.deepEqual(await framesAfter(cmd), ['{"signal":"SIGTERM"}']);
+    assert.deepEqual(cmd.exitStatus(), {
+      code: 124,
+      timedOut: true,
+      signal: 'SIGTERM',
+      signalDelivered: true,
+    });
+  });
+});
+
+describe('VmCommand.lines', () => {
+  let server: WebSocketServer;
+  let client: NoidClient;
+
+  before(async () => {
+    // Answers every exec request with two lines of stdout and exit code 3
+    server = new WebSocketServer({ port: 0 });
+    server.on('connection', (peer: WebSocket) => {
+      peer.once('message', () => {
+        peer.send(Buffer.concat([Buffer.from([0x01]), Buffer.from('one\ntwo\n')]));
+        peer.send(JSON.stringify({ exit_code: 3, timed_out: false, truncated: false }));
+      });
+    });
+    await once(server, 'listening');
+    const { port } = server.address() as AddressInfo;
+    client = new NoidClient({ baseUrl: `http://127.0.0.1:${port}`, token: 'noid_tok_test' });
+  });
+
+  after(() => {
+    for (const peer of server.clients) peer.terminate();
+    server.close();
+  });
+
+  it('yields every line and leaves a non-zero exit to exitStatus()', async () => {
+    const cmd = client.vm('test').spawn(['false']);
+    const lines = [];
+    for await (const line of cmd.lines()) lines.push(line);
+    assert.deepEqual(lines, ['one', 'two']);
+    assert.equal(cmd.exitStatus()?.code, 3);
+  });
+
+  it('throws NoidExecError after the last line with check: true', async () => {
+    const cmd = client.vm('test').spawn(['false'], { check: true });
+    const lines: string[] = [];
+    await assert.rejects(async () => {
+      for await (const line of cmd.lines()) lines.push(line);
+    }, NoidExecError);
+    assert.deepEqual(lines, ['one', 'two']);
+  });
+});
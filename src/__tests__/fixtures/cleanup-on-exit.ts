@@ -0,0 +1,30 @@
+// Creates a VM with cleanupOnExit against an in-process server, then raises
+// the signal given as argv[2]. The server logs each request to stdout.
+import { once } from 'node:events';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { NoidClient } from '../../client.js';
+
+const server = createServer((req, res) => {
+  process.stdout.write(`${req.method} ${req.url}\n`);
+  if (req.method === 'POST') {
+    res.writeHead(200, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ name: 'job', state: 'running', cpus: 1, mem_mib: 256 }));
+  } else {
+    res.writeHead(204).end();
+  }
+});
+
+async function main(): Promise<void> {
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const client = new NoidClient({
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    token: 'noid_tok_test',
+    cleanupOnExit: true,
+  });
+  await client.createVm('job');
+  process.kill(process.pid, process.argv[2] as NodeJS.Signals);
+}
+
+void main();
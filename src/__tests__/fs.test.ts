@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+import { finished } from 'node:stream/promises';
+import { after, before, describe, it } from 'node:test';
+import { type WebSocket, WebSocketServer } from 'ws';
+import { NoidClient } from '../client.js';
+
+describe('VmFilesystem.createReadStream', () => {
+  let server: WebSocketServer;
+  let client: NoidClient;
+  /** Whether the exec session should finish after its output */
+  let exits = false;
+
+  before(async () => {
+    // Sends one stdout frame, then either exits 0 or stays running
+    server = new WebSocketServer({ port: 0 });
+    server.on('connection', (peer: WebSocket) => {
+      peer.once('message', () => {
+        peer.send(Buffer.concat([Buffer.from([0x01]), Buffer.from('contents')]));
+        if (exits) peer.send(JSON.stringify({ exit_code: 0, timed_out: false, truncated: false }));
+      });
+    });
+    await once(server, 'listening');
+    const { port } = server.address() as AddressInfo;
+    client = new NoidClient({ baseUrl: `http://127.0.0.1:${port}`, token: 'noid_tok_test' });
+  });
+
+  after(() => {
+    for (const peer of server.clients) peer.terminate();
+    server.close();
+  });
+
+  it('reads a file to the end', async () => {
+    exits = true;
+    const chunks: Buffer[] = [];
+    const stream = client.vm('test').fs.createReadStream('/etc/hostname');
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    await finished(stream);
+    assert.equal(Buffer.concat(chunks).toString(), 'contents');
+  });
+
+  it('ends the remote command when the stream is destroyed early', async () => {
+    exits = false;
+    const connected = once(server, 'connection');
+    const stream = client.vm('test').fs.createReadStream('/dev/zero');
+    const [peer] = (await connected) as [WebSocket];
+    await once(stream, 'data');
+    stream.destroy();
+    await once(peer, 'close');
+  });
+});
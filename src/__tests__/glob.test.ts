@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { compileGlobs } from '../internal/glob.js';
+
+function matches(pattern: string, path: string): boolean {
+  return compileGlobs([pattern])(path);
+}
+
+describe('compileGlobs', () => {
+  it('matches names at any depth when the pattern has no slash', () => {
+    assert.ok(matches('*.log', 'debug.log'));
+    assert.ok(matches('*.log', 'a/b/debug.log'));
+    assert.ok(matches('node_modules', 'pkg/node_modules'));
+    assert.ok(!matches('*.log', 'debug.log.txt'));
+  });
+
+  it('anchors patterns containing a slash to the whole path', () => {
+    assert.ok(matches('src/*.ts', 'src/index.ts'));
+    assert.ok(!matches('src/*.ts', 'lib/src/index.ts'));
+    assert.ok(matches('/build/', 'build'));
+    assert.ok(!matches('/build', 'a/build'));
+    assert.ok(matches('./docs/*.md', 'docs/a.md'));
+  });
+
+  it('keeps * and ? within one segment', () => {
+    assert.ok(!matches('src/*', 'src/a/b.ts'));
+    assert.ok(matches('src/?.ts', 'src/a.ts'));
+    assert.ok(!matches('src/?.ts', 'src/ab.ts'));
+    assert.ok(!matches('a?b', 'a/b'));
+  });
+
+  it('lets ** cross segments', () => {
+    assert.ok(matches('src/**/*.ts', 'src/index.ts'));
+    assert.ok(matches('src/**/*.ts', 'src/a/b/c.ts'));
+    assert.ok(matches('**/fixtures', 'test/fixtures'));
+    assert.ok(matches('dist/**', 'dist/a/b'));
+    assert.ok(!matches('src/**/*.ts', 'lib/a.ts'));
+  });
+
+  it('supports character classes and negation', () => {
+    assert.ok(matches('file[0-9].txt', 'file7.txt'));
+    assert.ok(!matches('file[0-9].txt', 'filex.txt'));
+    assert.ok(matches('file[!0-9].txt', 'filex.txt'));
+    assert.ok(!matches('file[!0-9].txt', 'file7.txt'));
+    assert.ok(matches('[', '['), 'an unclosed bracket is literal');
+  });
+
+  it('treats regex metacharacters literally', () => {
+    assert.ok(matches('a.b', 'a.b'));
+    assert.ok(!matches('a.b', 'axb'));
+    assert.ok(matches('(x)+$', '(x)+$'));
+    assert.ok(matches('{a,b}', '{a,b}'));
+  });
+
+  it('matches when any pattern does', () => {
+    const match = compileGlobs(['*.tmp', 'cache/**']);
+    assert.ok(match('x.tmp'));
+    assert.ok(match('cache/a/b'));
+    assert.ok(!match('src/a.ts'));
+    assert.ok(!compileGlobs([])('anything'));
+  });
+});
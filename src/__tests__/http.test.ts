@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { NoidAPIError } from '../errors.js';
+import { parseRetryAfter, type RetryPolicy, request } from '../internal/http.js';
+
+const POLICY: RetryPolicy = { maxAttempts: 3, baseDelayMs: 10, maxDelayMs: 50, jitter: false };
+
+describe('request retries', () => {
+  let server: Server;
+  let baseUrl: string;
+  /** Responses to serve in order; the last one repeats */
+  let script: { status: number; headers?: Record<string, string> }[] = [];
+  let hits = 0;
+
+  before(async () => {
+    server = createServer((_req, res) => {
+      const { status, headers } = script[Math.min(hits++, script.length - 1)];
+      res.writeHead(status, { 'content-type': 'application/json', ...headers });
+      res.end(JSON.stringify(status === 200 ? { ok: true } : { error: `status ${status}` }));
+    });
+    server.listen(0, '127.0.0.1');
+    await once(server, 'listening');
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => server.close());
+
+  function serve(...responses: typeof script): void {
+    script = responses;
+    hits = 0;
+  }
+
+  it('caps a Retry-After longer than maxDelayMs and retries', async () => {
+    serve({ status: 429, headers: { 'retry-after': '20' } }, { status: 200 });
+    const started = Date.now();
+    const body = await request<{ ok: boolean }>(baseUrl, {
+      method: 'GET',
+      path: '/',
+      retry: POLICY,
+    });
+    assert.deepEqual(body, { ok: true });
+    assert.equal(hits, 2);
+    assert.ok(Date.now() - started < 5000, 'waited maxDelayMs, not 20s');
+  });
+
+  it('retries 5xx responses up to maxAttempts', async () => {
+    serve({ status: 503 });
+    await assert.rejects(
+      request(baseUrl, { method: 'GET', path: '/', retry: POLICY }),
+      (err: unknown) => err instanceof NoidAPIError && err.statusCode === 503,
+    );
+    assert.equal(hits, 3);
+  });
+
+  it('does not retry client errors', async () => {
+    serve({ status: 404 });
+    await assert.rejects(request(baseUrl, { method: 'GET', path: '/', retry: POLICY }));
+    assert.equal(hits, 1);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('parses seconds and HTTP dates', () => {
+    assert.equal(parseRetryAfter('20'), 20_000);
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    assert.equal(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT', now), 5000);
+    assert.equal(parseRetryAfter('Wed, 31 Dec 2025 00:00:00 GMT', now), 0);
+    assert.equal(parseRetryAfter('soon'), undefined);
+    assert.equal(parseRetryAfter(null), undefined);
+  });
+});
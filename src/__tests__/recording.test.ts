@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { Writable } from 'node:stream';
+import { describe, it } from 'node:test';
+import { type RecordedSession, Redactor, SessionRecorder, type SessionTap } from '../recording.js';
+
+/** Feed `chunks` through a redactor for `secrets` and return everything it emitted. */
+function redact(secrets: string[], chunks: string[]): string {
+  const redactor = new Redactor(new Set(secrets), '***');
+  return chunks.map((chunk) => redactor.push(chunk)).join('') + redactor.flush();
+}
+
+describe('Redactor', () => {
+  it('replaces every occurrence within a chunk', () => {
+    assert.equal(redact(['hunter2'], ['pw=hunter2 again hunter2\n']), 'pw=*** again ***\n');
+  });
+
+  it('replaces a secret split across chunks', () => {
+    assert.equal(redact(['hunter2'], ['pw=hun', 'te', 'r2\n']), 'pw=***\n');
+    const emitted = new Redactor(new Set(['hunter2']), '***').push('pw=hun');
+    assert.equal(emitted, 'pw=', 'the possible start of a secret is held back');
+  });
+
+  it('releases held text that turns out not to be a secret', () => {
+    assert.equal(redact(['hunter2'], ['pw=hun', 'gry\n']), 'pw=hungry\n');
+    assert.equal(redact(['hunter2'], ['ends with hunt']), 'ends with hunt');
+  });
+
+  it('covers overlapping secrets with one replacement', () => {
+    assert.equal(redact(['token-abc', 'abc-def'], ['x token-abc-def y']), 'x *** y');
+    assert.equal(redact(['abc-def', 'token-abc'], ['x token-', 'abc-d', 'ef y']), 'x *** y');
+  });
+
+  it('covers a secret nested in a longer one', () => {
+    assert.equal(redact(['pass', 'password'], ['my password, my pass']), 'my ***, my ***');
+  });
+
+  it('does not leak the end of a secret that straddles a held tail', () => {
+    // "abab" completes, but its tail "ab" could also start another "abab"
+    assert.equal(redact(['abab'], ['xabab', 'y']), 'x***y');
+    assert.equal(redact(['abab'], ['xabab', 'ab', 'y']), 'x***y');
+  });
+
+  it('passes text through when there are no secrets', () => {
+    assert.equal(redact([], ['a', 'b']), 'ab');
+  });
+});
+
+describe('SessionRecorder', () => {
+  /** A session to record: `emit` sends it I/O, `held` counts unreleased holds. */
+  function fakeSession() {
+    let tap: SessionTap = () => {};
+    const state = { held: 0, holds: 0 };
+    const session: RecordedSession = {
+      _tap: (t) => {
+        tap = t;
+        return () => {};
+      },
+      _terminalSize: () => ({ cols: 80, rows: 24 }),
+      _hold: () => {
+        state.held++;
+        state.holds++;
+        return () => state.held--;
+      },
+    };
+    return { session, state, emit: (data: string) => tap('o', Buffer.from(data)) };
+  }
+
+  /** A target that stores lines and holds each write until `release()` is called. */
+  function slowTarget() {
+    const lines: string[] = [];
+    let pending: (() => void)[] = [];
+    let released = false;
+    const output = new Writable({
+      highWaterMark: 64,
+      write(chunk: Buffer, _encoding, cb) {
+        if (chunk.length > 0) lines.push(chunk.toString());
+        if (released) cb();
+        else pending.push(cb);
+      },
+    });
+    const release = () => {
+      released = true;
+      for (const cb of pending) cb();
+      pending = [];
+    };
+    return { output, lines, release };
+  }
+
+  it('holds the session while the target is backed up', async () => {
+    const { session, state, emit } = fakeSession();
+    const { output, lines, release } = slowTarget();
+    const recorder = new SessionRecorder(session, output);
+    emit('x'.repeat(100));
+    emit('more');
+    assert.deepEqual([state.held, state.holds], [1, 1], 'one hold while backed up');
+
+    const drained = new Promise((resolve) => output.once('drain', resolve));
+    release();
+    await drained;
+    assert.equal(state.held, 0, 'released once drained');
+    await recorder.stop();
+    assert.equal(lines.length, 3);
+  });
+
+  it('releases the session when stopped while backed up', async () => {
+    const { session, state, emit } = fakeSession();
+    const { output, release } = slowTarget();
+    const recorder = new SessionRecorder(session, output);
+    emit('x'.repeat(100));
+    const stopping = recorder.stop();
+    assert.equal(state.held, 0);
+    release();
+    await stopping;
+  });
+
+  it('redacts secrets in the recording', async () => {
+    const { session, emit } = fakeSession();
+    const { output, lines, release } = slowTarget();
+    release();
+    const recorder = new SessionRecorder(session, output, { secrets: ['hunter2'] });
+    emit('pw=hun');
+    emit('ter2\n');
+    await recorder.stop();
+    const recorded = lines
+      .slice(1)
+      .map((line) => JSON.parse(line)[2])
+      .join('');
+    assert.equal(recorded, 'pw=********\n');
+  });
+});
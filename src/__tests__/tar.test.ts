@@ -0,0 +1,240 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, readFile, readlink, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PassThrough, Readable } from 'node:stream';
+import { after, describe, it } from 'node:test';
+import { NoidValidationError } from '../errors.js';
+import {
+  encodeHeader,
+  endOfArchive,
+  padding,
+  readTar,
+  TarFormatError,
+  type TarHeader,
+} from '../internal/tar.js';
+import { downloadFromVm } from '../transfer.js';
+import type { Vm } from '../vm.js';
+
+const MTIME = new Date('2026-01-02T03:04:05Z');
+
+interface TestEntry extends Partial<TarHeader> {
+  path: string;
+  content?: string;
+}
+
+function archive(entries: TestEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+  for (const { content, ...fields } of entries) {
+    const data = Buffer.from(content ?? '');
+    const header: TarHeader = {
+      type: 'file',
+      mode: 0o644,
+      size: data.length,
+      mtime: MTIME,
+      ...fields,
+    };
+    blocks.push(encodeHeader(header));
+    if (header.type === 'file') blocks.push(data, padding(data.length));
+  }
+  blocks.push(endOfArchive());
+  return Buffer.concat(blocks);
+}
+
+/** Parse an archive fed in `chunkSize` pieces, collecting each entry's data. */
+async function parse(
+  buf: Buffer,
+  chunkSize = 100,
+): Promise<{ header: TarHeader; content: string }[]> {
+  async function* chunks() {
+    for (let i = 0; i < buf.length; i += chunkSize) yield buf.subarray(i, i + chunkSize);
+  }
+  const out = [];
+  for await (const { header, data } of readTar(chunks())) {
+    const parts: Buffer[] = [];
+    for await (const chunk of data) parts.push(chunk);
+    out.push({ header, content: Buffer.concat(parts).toString() });
+  }
+  return out;
+}
+
+/** Change a header block's type flag and fix its checksum. */
+function setTypeflag(block: Buffer, typeflag: string): void {
+  block.write(typeflag, 156, 1, 'ascii');
+  block.fill(' ', 148, 156);
+  let sum = 0;
+  for (const byte of block.subarray(0, 512)) sum += byte;
+  block.write(`${sum.toString(8).padStart(6, '0')}\0 `, 148, 8, 'ascii');
+}
+
+describe('tar', () => {
+  it('round-trips files, directories and symlinks', async () => {
+    const entries = await parse(
+      archive([
+        { path: 'dir', type: 'directory', mode: 0o755 },
+        { path: 'dir/file.txt', mode: 0o600, content: 'hello\n' },
+        { path: 'dir/link', type: 'symlink', linkname: 'file.txt' },
+        { path: 'empty' },
+      ]),
+    );
+    assert.deepEqual(
+      entries.map(({ header, content }) => [header.path, header.type, header.mode, content]),
+      [
+        ['dir', 'directory', 0o755, ''],
+        ['dir/file.txt', 'file', 0o600, 'hello\n'],
+        ['dir/link', 'symlink', 0o644, ''],
+        ['empty', 'file', 0o644, ''],
+      ],
+    );
+    assert.equal(entries[1].header.mtime.getTime(), MTIME.getTime());
+    assert.equal(entries[2].header.linkname, 'file.txt');
+  });
+
+  it('splits long paths into the ustar prefix field', async () => {
+    const path = `${'a'.repeat(120)}/${'b'.repeat(90)}`;
+    const buf = archive([{ path, content: 'x' }]);
+    assert.equal(buf.length, 512 * 2 + 1024, 'no PAX header needed');
+    const [entry] = await parse(buf);
+    assert.equal(entry.header.path, path);
+  });
+
+  it('uses PAX headers for paths and link targets ustar cannot hold', async () => {
+    const path = `${'n'.repeat(150)}/${'é'.repeat(80)}`;
+    const linkname = `../${'t'.repeat(200)}`;
+    const entries = await parse(
+      archive([
+        { path, content: 'data' },
+        { path: 'long-link', type: 'symlink', linkname },
+        { path: 'after', content: 'still aligned' },
+      ]),
+      7,
+    );
+    assert.equal(entries[0].header.path, path);
+    assert.equal(entries[0].content, 'data');
+    assert.equal(entries[1].header.linkname, linkname);
+    assert.equal(entries[2].content, 'still aligned');
+  });
+
+  it('reads GNU long-name entries', async () => {
+    const name = 'g'.repeat(300);
+    const body = Buffer.from(`${name}\0`);
+    const longName = encodeHeader({
+      path: '././@LongLink',
+      type: 'file',
+      mode: 0,
+      size: body.length,
+      mtime: MTIME,
+    });
+    setTypeflag(longName, 'L');
+
+    const buf = Buffer.concat([
+      longName,
+      body,
+      padding(body.length),
+      archive([{ path: 'truncated', content: 'gnu' }]),
+    ]);
+    const [entry] = await parse(buf);
+    assert.equal(entry.header.path, name);
+    assert.equal(entry.content, 'gnu');
+  });
+
+  it('skips unread entry data', async () => {
+    const buf = archive([
+      { path: 'big', content: 'z'.repeat(2000) },
+      { path: 'next', content: 'ok' },
+    ]);
+    const paths = [];
+    for await (const { header } of readTar(Readable.from([buf]))) paths.push(header.path);
+    assert.deepEqual(paths, ['big', 'next']);
+  });
+
+  it('stores sizes that need GNU base-256', async () => {
+    const size = 9 * 1024 ** 3;
+    const header = encodeHeader({ path: 'huge', type: 'file', mode: 0o644, size, mtime: MTIME });
+    for await (const entry of readTar(Readable.from([header]))) {
+      assert.equal(entry.header.size, size);
+      break;
+    }
+  });
+
+  it('rejects oversized PAX and GNU long-name headers before buffering them', async () => {
+    for (const typeflag of ['x', 'g', 'L', 'K']) {
+      const header = encodeHeader({
+        path: 'ext',
+        type: 'file',
+        mode: 0,
+        size: 1024 ** 3,
+        mtime: MTIME,
+      });
+      setTypeflag(header, typeflag);
+      await assert.rejects(
+        parse(header),
+        (err: unknown) => err instanceof TarFormatError && /exceeds/.test(err.message),
+        typeflag,
+      );
+    }
+  });
+
+  it('rejects a corrupted header', async () => {
+    const buf = archive([{ path: 'f', content: 'x' }]);
+    buf[0] ^= 1;
+    await assert.rejects(parse(buf), TarFormatError);
+  });
+});
+
+describe('download extraction', () => {
+  const dirs: string[] = [];
+  after(() => Promise.all(dirs.map((dir) => rm(dir, { recursive: true, force: true }))));
+
+  /** A Vm whose spawned command streams `buf` as stdout and exits 0. */
+  function fakeVm(buf: Buffer): Vm {
+    const spawn = () => {
+      const stdout = Readable.from([buf]);
+      return {
+        stdout,
+        stderr: new PassThrough(),
+        stdin: new PassThrough(),
+        start: async () => {},
+        wait: async () => 0,
+        kill: () => stdout.destroy(),
+      };
+    };
+    return { spawn } as unknown as Vm;
+  }
+
+  async function download(entries: TestEntry[]): Promise<string> {
+    const target = await mkdtemp(join(tmpdir(), 'noid-tar-'));
+    dirs.push(target);
+    const buf = archive([{ path: '.', type: 'directory', mode: 0o755 }, ...entries]);
+    await downloadFromVm(fakeVm(buf), '/remote', target);
+    return target;
+  }
+
+  it('extracts a directory archive', async () => {
+    const target = await download([
+      { path: 'sub', type: 'directory', mode: 0o755 },
+      { path: 'sub/a.txt', content: 'A' },
+      { path: 'sub/link', type: 'symlink', linkname: 'a.txt' },
+    ]);
+    assert.deepEqual((await readdir(join(target, 'sub'))).sort(), ['a.txt', 'link']);
+    assert.equal(await readFile(join(target, 'sub/a.txt'), 'utf8'), 'A');
+    assert.equal(await readlink(join(target, 'sub/link')), 'a.txt');
+  });
+
+  it("rejects entries that escape the target with '..'", async () => {
+    await assert.rejects(
+      download([{ path: 'sub/../../escape', content: 'x' }]),
+      (err: unknown) => err instanceof NoidValidationError && /escapes/.test(err.message),
+    );
+  });
+
+  it('rejects entries beneath an extracted symlink', async () => {
+    await assert.rejects(
+      download([
+        { path: 'evil', type: 'symlink', linkname: '/tmp' },
+        { path: 'evil/planted', content: 'x' },
+      ]),
+      (err: unknown) => err instanceof NoidValidationError && /beneath a symlink/.test(err.message),
+    );
+  });
+});
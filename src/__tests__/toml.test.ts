@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseToml, TomlParseError } from '../internal/toml.js';
+
+describe('parseToml', () => {
+  it('reads top-level keys and tables', () => {
+    const parsed = parseToml(
+      [
+        'url = "https://noid.example.com"',
+        "token = 'noid_tok_abc'",
+        '',
+        '[profiles.staging]',
+        'url = "https://staging.example.com"',
+      ].join('\n'),
+    );
+    assert.deepEqual(parsed, {
+      url: 'https://noid.example.com',
+      token: 'noid_tok_abc',
+      profiles: { staging: { url: 'https://staging.example.com' } },
+    });
+  });
+
+  it('reads integers, floats and booleans', () => {
+    assert.deepEqual(parseToml('a = 1_000\nb = -2.5\nc = +3\nd = true\ne = false'), {
+      a: 1000,
+      b: -2.5,
+      c: 3,
+      d: true,
+      e: false,
+    });
+  });
+
+  it('strips comments outside strings only', () => {
+    assert.deepEqual(parseToml('# header\nurl = "http://h/#frag" # trailing\n'), {
+      url: 'http://h/#frag',
+    });
+  });
+
+  it('accepts CRLF line endings and surrounding whitespace', () => {
+    assert.deepEqual(parseToml('  [a]  \r\n  key   =   "v"  \r\n'), { a: { key: 'v' } });
+  });
+
+  it('decodes escapes in basic strings but not literal strings', () => {
+    const parsed = parseToml(
+      ['basic = "tab\\tquote\\"\\u00e9\\U0001F600"', "literal = 'C:\\path\\n'"].join('\n'),
+    );
+    assert.equal(parsed.basic, 'tab\tquote"é😀');
+    assert.equal(parsed.literal, 'C:\\path\\n');
+  });
+
+  it('supports dotted and quoted keys', () => {
+    const parsed = parseToml('a.b = 1\n"with space".\'x.y\' = 2\n[t."q.k"]\nz = 3');
+    assert.deepEqual(parsed, {
+      a: { b: 1 },
+      'with space': { 'x.y': 2 },
+      t: { 'q.k': { z: 3 } },
+    });
+  });
+
+  it('merges repeated table headers', () => {
+    assert.deepEqual(parseToml('[a]\nx = 1\n[b]\n[a]\ny = 2'), { a: { x: 1, y: 2 }, b: {} });
+  });
+
+  it('reports the failing line number', () => {
+    assert.throws(
+      () => parseToml('ok = 1\n\nbroken'),
+      (err: unknown) => err instanceof TomlParseError && err.line === 3,
+    );
+  });
+
+  it('rejects unsupported and malformed syntax', () => {
+    for (const source of [
+      '[[servers]]',
+      '[unterminated',
+      'list = [1, 2]',
+      'inline = { a = 1 }',
+      'multi = """x"""',
+      "multi = '''x'''",
+      'bad = "unterminated',
+      'bad = "x" y',
+      'bad = "\\q"',
+      'bad = nope',
+      'bad =',
+      'bad key = 1',
+      'a. = 1',
+    ]) {
+      assert.throws(() => parseToml(source), TomlParseError, source);
+    }
+  });
+
+  it('rejects a key used both as a value and a table', () => {
+    assert.throws(() => parseToml('a = 1\n[a]'), TomlParseError);
+    assert.throws(() => parseToml('a = 1\na.b = 2'), TomlParseError);
+  });
+
+  it('rejects keys that would reach Object.prototype', () => {
+    for (const source of [
+      '[__proto__]\nurl = "http://evil"',
+      '__proto__.url = "http://evil"',
+      '"__proto__" = 1',
+      '[a.constructor.prototype]\nx = 1',
+      'a.prototype = 1',
+    ]) {
+      assert.throws(() => parseToml(source), TomlParseError, source);
+    }
+    assert.equal(({} as Record<string, unknown>).url, undefined);
+  });
+});
@@ -0,0 +1,265 @@
+import assert from 'node:assert/strict';
+import { spawn, spawnSync } from 'node:child_process';
+import { once } from 'node:events';
+import { describe, it } from 'node:test';
+import { NoidClient } from '../client.js';
+import { NoidAPIError, NoidConnectionError, NoidError, NoidValidationError } from '../errors.js';
+import type { CheckpointInfo, ExecResult, RunResult } from '../types.js';
+import { Vm } from '../vm.js';
+
+const client = new NoidClient({ baseUrl: 'http://127.0.0.1:1', token: 'noid_tok_test' });
+
+/** The argv vm.sh() would run, captured instead of sent. */
+async function shCommand(build: (vm: ReturnType<typeof client.vm>) => unknown): Promise<string[]> {
+  const vm = client.vm('test');
+  let captured: string[] = [];
+  vm.run = (async (command: string[]) => {
+    captured = command;
+    return {} as RunResult<string>;
+  }) as typeof vm.run;
+  await build(vm);
+  return captured;
+}
+
+function runLocally([shell, ...args]: string[]): { status: number | null; stdout: string } {
+  const { status, stdout } = spawnSync(shell, args, { encoding: 'utf8' });
+  return { status, stdout };
+}
+
+describe('Vm.sh', () => {
+  it('quotes interpolated values', async () => {
+    const value = "it's $HOME; rm -rf /";
+    const command = await shCommand((vm) => vm.sh`printf %s ${value}`);
+    assert.equal(runLocally(command).stdout, value);
+  });
+
+  it('runs the script in cwd', async () => {
+    const command = await shCommand((vm) => vm.sh({ cwd: '/' })`pwd; echo second`);
+    assert.deepEqual(runLocally(command), { status: 0, stdout: '/\nsecond\n' });
+  });
+
+  it('runs nothing when cwd does not exist', async () => {
+    const command = await shCommand(
+      (vm) => vm.sh({ cwd: '/nonexistent/noid-test' })`echo first; echo second`,
+    );
+    assert.deepEqual(runLocally(command), { status: 1, stdout: '' });
+  });
+
+  it('handles a cwd that looks like an option', async () => {
+    const command = await shCommand((vm) => vm.sh({ cwd: '-P' })`echo ran`);
+    assert.equal(runLocally(command).stdout, '');
+  });
+});
+
+describe('Vm.run', () => {
+  /** A Vm whose spawn() runs the command locally. */
+  function localVm(): ReturnType<typeof client.vm> {
+    const vm = client.vm('test');
+    vm.spawn = ((command: string[]) => {
+      const child = spawn(command[0], command.slice(1));
+      const exited = once(child, 'exit').then(([code]) => code as number);
+      return {
+        stdin: child.stdin,
+        stdout: child.stdout,
+        stderr: child.stderr,
+        start: async () => {},
+        wait: () => exited,
+        exitStatus: () => ({ code: child.exitCode, timedOut: false, signal: null }),
+      };
+    }) as unknown as typeof vm.spawn;
+    return vm;
+  }
+
+  it('closes stdin so commands that read it finish', async () => {
+    const result = await localVm().run(['cat']);
+    assert.deepEqual([result.exitCode, result.stdout], [0, '']);
+  });
+
+  it('writes input to stdin', async () => {
+    const result = await localVm().run(['cat'], { input: 'hello\n' });
+    assert.equal(result.stdout, 'hello\n');
+  });
+});
+
+describe('Vm.waitUntilReady', () => {
+  /** A Vm whose exec() throws each of `failures` in turn, then succeeds. */
+  function probedVm(failures: Error[]): { vm: ReturnType<typeof client.vm>; calls: () => number } {
+    const vm = client.vm('test');
+    let calls = 0;
+    vm.exec = (async () => {
+      const failure = failures[calls++];
+      if (failure) throw failure;
+      return { stdout: '', exit_code: 0, timed_out: false, truncated: false } as ExecResult;
+    }) as typeof vm.exec;
+    return { vm, calls: () => calls };
+  }
+
+  it('keeps polling through connection errors, 409 and 5xx', async () => {
+    const { vm, calls } = probedVm([
+      new NoidConnectionError('connection refused'),
+      new NoidAPIError(409, 'vm is restoring'),
+      new NoidAPIError(502, 'bad gateway'),
+    ]);
+    await vm.waitUntilReady({ pollInterval: 1, timeout: 5000 });
+    assert.equal(calls(), 4);
+  });
+
+  it('rejects at once on other API errors', async () => {
+    for (const status of [401, 403, 404]) {
+      const { vm, calls } = probedVm([new NoidAPIError(status, 'nope')]);
+      await assert.rejects(
+        vm.waitUntilReady({ pollInterval: 1, timeout: 5000 }),
+        (err: unknown) => err instanceof NoidAPIError && err.statusCode === status,
+      );
+      assert.equal(calls(), 1);
+    }
+  });
+});
+
+describe('Vm.pruneCheckpoints', () => {
+  const checkpoint = (id: string, label: string | null, daysAgo: number): CheckpointInfo => ({
+    id,
+    vm_name: 'test',
+    label,
+    created_at: new Date(Date.now() - daysAgo * 86_400_000).toISOString(),
+  });
+  const ids = (checkpoints: CheckpointInfo[]) => checkpoints.map((cp) => cp.id);
+
+  /** A Vm listing `checkpoints`, whose deletes fail with `failures[id]` when set. */
+  function checkpointVm(checkpoints: CheckpointInfo[], failures: Record<string, Error> = {}) {
+    const vm = client.vm('test');
+    const deleted: string[] = [];
+    vm.listCheckpoints = (async () => checkpoints) as typeof vm.listCheckpoints;
+    vm.deleteCheckpoint = (async (id: string) => {
+      if (failures[id]) throw failures[id];
+      deleted.push(id);
+    }) as typeof vm.deleteCheckpoint;
+    return { vm, deleted };
+  }
+
+  const checkpoints = [
+    checkpoint('n3', 'nightly-3', 1),
+    checkpoint('m1', 'manual', 5),
+    checkpoint('n1', 'nightly-1', 3),
+    checkpoint('u1', null, 4),
+    checkpoint('n2', 'nightly-2', 2),
+  ];
+
+  it('keeps the newest matching checkpoints, even with a global pattern', async () => {
+    const { vm, deleted } = checkpointVm(checkpoints);
+    const result = await vm.pruneCheckpoints({ keepLast: 2, labelPattern: /^nightly-/g });
+    assert.deepEqual(ids(result.deleted), ['n1']);
+    assert.deepEqual(ids(result.kept), ['n2', 'n3']);
+    assert.deepEqual(deleted, ['n1']);
+  });
+
+  it('only deletes checkpoints older than olderThan', async () => {
+    const { vm } = checkpointVm(checkpoints);
+    const result = await vm.pruneCheckpoints({ olderThan: 3.5 * 86_400_000, dryRun: true });
+    assert.deepEqual(ids(result.deleted), ['m1', 'u1']);
+    assert.equal(result.dryRun, true);
+  });
+
+  it('deletes nothing on a dry run', async () => {
+    const { vm, deleted } = checkpointVm(checkpoints);
+    const result = await vm.pruneCheckpoints({ keepLast: 0, dryRun: true });
+    assert.equal(result.deleted.length, 5);
+    assert.deepEqual(deleted, []);
+  });
+
+  it('counts missing checkpoints as deleted and reports other failures', async () => {
+    const { vm, deleted } = checkpointVm(checkpoints, {
+      m1: new NoidAPIError(404, 'checkpoint not found'),
+      u1: new NoidAPIError(500, 'disk error'),
+    });
+    const result = await vm.pruneCheckpoints({ keepLast: 1 });
+    assert.deepEqual(ids(result.deleted), ['m1', 'n1', 'n2']);
+    assert.deepEqual(
+      result.failed.map(({ checkpoint, error }) => [
+        checkpoint.id,
+        (error as NoidAPIError).statusCode,
+      ]),
+      [['u1', 500]],
+    );
+    assert.deepEqual(deleted, ['n1', 'n2']);
+  });
+
+  it('requires keepLast or olderThan', async () => {
+    await assert.rejects(checkpointVm([]).vm.pruneCheckpoints({}), NoidValidationError);
+  });
+});
+
+describe('Vm.fork', () => {
+  /**
+   * A Vm whose restores succeed except for the clone numbers in `failing`, and whose
+   * client records destroys, failing those named in `undeletable`.
+   */
+  function forkableVm(failing: number[], undeletable: number[] = []) {
+    const forkClient = new NoidClient({ baseUrl: 'http://127.0.0.1:1', token: 'noid_tok_test' });
+    const vm = forkClient.vm('base');
+    const destroyed: string[] = [];
+    const cloneNumber = (name: string) => Number(name.split('-').pop());
+    vm.createCheckpoint = (async () => ({
+      id: 'cp-1',
+      vm_name: 'base',
+      label: 'fork',
+      created_at: new Date().toISOString(),
+    })) as typeof vm.createCheckpoint;
+    vm.restore = (async (_checkpoint: unknown, options?: { newName?: string }) => {
+      const name = options?.newName as string;
+      if (failing.includes(cloneNumber(name))) throw new NoidAPIError(500, `restore ${name}`);
+      return new Vm(name, forkClient);
+    }) as typeof vm.restore;
+    forkClient.destroyVm = (async (name: string) => {
+      if (undeletable.includes(cloneNumber(name))) throw new NoidAPIError(500, 'busy');
+      destroyed.push(name);
+    }) as typeof forkClient.destroyVm;
+    return { vm, destroyed, cloneNumber };
+  }
+
+  it('returns the clones in order', async () => {
+    const { vm, destroyed, cloneNumber } = forkableVm([]);
+    const clones = await vm.fork(5, { concurrency: 2 });
+    assert.deepEqual(
+      clones.map((clone) => cloneNumber(clone.name)),
+      [1, 2, 3, 4, 5],
+    );
+    assert.deepEqual(destroyed, []);
+  });
+
+  it('destroys the clones it created when a restore fails', async () => {
+    const { vm, destroyed, cloneNumber } = forkableVm([3]);
+    await assert.rejects(
+      vm.fork(6, { concurrency: 1 }),
+      (err: unknown) => err instanceof NoidAPIError && /restore/.test(err.message),
+    );
+    assert.deepEqual(destroyed.map(cloneNumber), [1, 2], 'no restores start after the failure');
+  });
+
+  it('names clones it could not destroy', async () => {
+    const { vm } = forkableVm([3], [2]);
+    await assert.rejects(
+      vm.fork(3, { concurrency: 1, namePrefix: 'job' }),
+      (err: unknown) =>
+        err instanceof NoidError &&
+        /could not be destroyed: job-[0-9a-f]+-2$/.test(err.message) &&
+        err.cause instanceof NoidAPIError,
+    );
+  });
+});
+
+describe('Vm.watchSync', () => {
+  it('rejects a missing localDir before watching', () => {
+    assert.throws(
+      () => client.vm('test').watchSync('/nonexistent/noid-watch', '/srv'),
+      (err: unknown) => err instanceof NoidValidationError && err.field === 'localDir',
+    );
+  });
+
+  it('rejects a localDir that is a file', () => {
+    assert.throws(
+      () => client.vm('test').watchSync(__filename, '/srv'),
+      (err: unknown) => err instanceof NoidValidationError && err.field === 'localDir',
+    );
+  });
+});
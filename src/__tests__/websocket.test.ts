@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, it } from 'node:test';
+import { setTimeout as delay } from 'node:timers/promises';
+import { type WebSocket, WebSocketServer } from 'ws';
+import { NoidConnectionError } from '../errors.js';
+import { NoidWebSocket } from '../internal/websocket.js';
+
+const PING_MS = 50;
+
+describe('NoidWebSocket keepalive', () => {
+  let server: WebSocketServer | undefined;
+  let socket: NoidWebSocket | undefined;
+
+  afterEach(async () => {
+    socket?.close();
+    server?.close();
+    for (const client of server?.clients ?? []) client.terminate();
+    socket = undefined;
+    server = undefined;
+  });
+
+  async function connect(autoPong: boolean): Promise<{ peer: WebSocket; ws: NoidWebSocket }> {
+    server = new WebSocketServer({ port: 0, autoPong });
+    await once(server, 'listening');
+    const { port } = server.address() as AddressInfo;
+    const connection = once(server, 'connection');
+    socket = new NoidWebSocket(`ws://127.0.0.1:${port}`, 'noid_tok_test', [], {
+      pingIntervalMs: PING_MS,
+    });
+    await socket.connect();
+    const [peer] = (await connection) as [WebSocket];
+    return { peer, ws: socket };
+  }
+
+  it('terminates a connection whose pong does not arrive', async () => {
+    const { ws } = await connect(false);
+    const [err] = await once(ws, 'error');
+    assert.ok(err instanceof NoidConnectionError);
+    assert.match(err.message, /no pong/);
+    const [info] = await once(ws, 'close');
+    assert.equal(info.error, err);
+  });
+
+  it('keeps a paused connection open across several ping intervals', async () => {
+    const { peer, ws } = await connect(true);
+    const errors: Error[] = [];
+    ws.on('error', (err) => errors.push(err));
+    ws.pause();
+    peer.send(Buffer.from([0x01, 0x68, 0x69]));
+    await delay(PING_MS * 5);
+    assert.deepEqual(errors, []);
+    assert.equal(ws.closeInfo, undefined);
+
+    const received = once(ws, 'stdout');
+    ws.resume();
+    assert.equal(String((await received)[0]), 'hi');
+    await delay(PING_MS * 3);
+    assert.deepEqual(errors, []);
+    assert.equal(ws.closeInfo, undefined);
+  });
+});
@@ -1,21 +1,46 @@
-import { DEFAULT_TIMEOUT_MS, TOKEN_PREFIX } from './constants.js';
-import { NoidValidationError } from './errors.js';
-import { request } from './internal/http.js';
+import { randomBytes } from 'node:crypto';
+import { loadConfig } from './config.js';
+import {
+  DEFAULT_RETRY_BASE_DELAY_MS,
+  DEFAULT_RETRY_MAX_ATTEMPTS,
+  DEFAULT_RETRY_MAX_DELAY_MS,
+  DEFAULT_TIMEOUT_MS,
+  TOKEN_PREFIX,
+  WS_PING_INTERVAL_MS,
+} from './constants.js';
+import { NoidAPIError, NoidValidationError } from './errors.js';
+import { registerCleanup } from './internal/cleanup.js';
+import { type RequestOptions, type RetryPolicy, request } from './internal/http.js';
 import { validateVmName } from './internal/validation.js';
+import { NoidWebSocket } from './internal/websocket.js';
 import type {
+  AbortOptions,
   Capabilities,
   CreateVmOptions,
+  EphemeralVmOptions,
   NoidClientOptions,
+  NoidConfigOptions,
+  NoidMiddleware,
   VersionInfo,
   VmInfo,
   WhoamiResponse,
 } from './types.js';
 import { Vm } from './vm.js';
 
+const DEFAULT_EPHEMERAL_PREFIX = 'ephemeral';
+
 export class NoidClient {
   readonly baseUrl: string;
   readonly token: string;
   readonly timeout: number;
+  readonly pingInterval: number;
+  readonly retry?: RetryPolicy;
+  private readonly _middleware: NoidMiddleware[] = [];
+  private capabilitiesCache?: Promise<Capabilities>;
+  private readonly cleanupOnExit: boolean;
+  /** VMs created through this client and not yet destroyed (only with cleanupOnExit) */
+  private readonly createdVms = new Set<string>();
+  private unregisterCleanup?: () => void;
 
   constructor(options: NoidClientOptions) {
     if (!options.token.startsWith(TOKEN_PREFIX)) {
@@ -25,6 +50,52 @@ export class NoidClient {
     this.baseUrl = options.baseUrl.replace(/\/+$/, '');
     this.token = options.token;
     this.timeout = options.timeout ?? DEFAULT_TIMEOUT_MS;
+    this.pingInterval = options.pingInterval ?? WS_PING_INTERVAL_MS;
+    if (!(this.pingInterval > 0)) {
+      throw new NoidValidationError('pingInterval', 'Must be a positive number');
+    }
+
+    if (options.retry !== false) {
+      const maxAttempts = options.retry?.maxAttempts ?? DEFAULT_RETRY_MAX_ATTEMPTS;
+      if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+        throw new NoidValidationError('retry.maxAttempts', 'Must be a positive integer');
+      }
+      this.retry = {
+        maxAttempts,
+        baseDelayMs: options.retry?.baseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS,
+        maxDelayMs: options.retry?.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS,
+        jitter: options.retry?.jitter ?? true,
+      };
+    }
+
+    for (const mw of options.middleware ?? []) {
+      this.use(mw);
+    }
+    this.cleanupOnExit = options.cleanupOnExit ?? false;
+  }
+
+  /**
+   * Create a client from the noid-cli config file and `NOID_*` environment variables.
+   * Pass a path string as shorthand for `{ path }`. See `loadConfig()` for precedence.
+   */
+  static fromConfig(options?: string | NoidConfigOptions): NoidClient {
+    const resolved = typeof options === 'string' ? { path: options } : options;
+    return new NoidClient(loadConfig(resolved));
+  }
+
+  /**
+   * Register middleware for every HTTP request and WebSocket connection made
+   * through this client, including from Vm, VmCommand and VmConsole.
+   * Middleware run in registration order. Returns the client for chaining.
+   */
+  use(middleware: NoidMiddleware): this {
+    this._middleware.push(middleware);
+    return this;
+  }
+
+  /** @internal Registered middleware, in order */
+  get middleware(): readonly NoidMiddleware[] {
+    return this._middleware;
   }
 
   /**
@@ -47,74 +118,196 @@ export class NoidClient {
       cpus: options?.cpus,
       mem_mib: options?.memMib,
     };
-    const info = await this.fetch<VmInfo>('POST', '/v1/vms', body);
+    const info = await this.fetch<VmInfo>('POST', '/v1/vms', body, {
+      retry: options?.retry,
+      signal: options?.signal,
+    });
+    this._trackCreated(name);
     const vm = new Vm(name, this);
     vm._setInfo(info);
     return vm;
   }
 
+  /** Create a VM with a generated name, `<namePrefix>-<random hex>`. */
+  async createEphemeralVm(options?: EphemeralVmOptions): Promise<Vm> {
+    const name = `${options?.namePrefix ?? DEFAULT_EPHEMERAL_PREFIX}-${randomBytes(4).toString('hex')}`;
+    return this.createVm(name, options);
+  }
+
+  /**
+   * Create a VM, pass it to `fn`, and destroy it when `fn` settles, whether it
+   * resolves or throws. Pass options without a name for an ephemeral VM.
+   */
+  withVm<T>(name: string, fn: (vm: Vm) => Promise<T>): Promise<T>;
+  withVm<T>(name: string, options: CreateVmOptions, fn: (vm: Vm) => Promise<T>): Promise<T>;
+  withVm<T>(options: EphemeralVmOptions, fn: (vm: Vm) => Promise<T>): Promise<T>;
+  async withVm<T>(
+    nameOrOptions: string | EphemeralVmOptions,
+    optionsOrFn: CreateVmOptions | ((vm: Vm) => Promise<T>),
+    fn?: (vm: Vm) => Promise<T>,
+  ): Promise<T> {
+    const callback = (fn ?? optionsOrFn) as (vm: Vm) => Promise<T>;
+    const vm =
+      typeof nameOrOptions === 'string'
+        ? await this.createVm(nameOrOptions, fn && (optionsOrFn as CreateVmOptions))
+        : await this.createEphemeralVm(nameOrOptions);
+    let result: T;
+    try {
+      result = await callback(vm);
+    } catch (err) {
+      // The callback's error matters more than a failed cleanup
+      await vm[Symbol.asyncDispose]().catch(() => {});
+      throw err;
+    }
+    await vm[Symbol.asyncDispose]();
+    return result;
+  }
+
   /**
    * Fetch VM info from server.
    * Returns a Vm handle populated with current state.
    */
-  async getVm(name: string): Promise<Vm> {
+  async getVm(name: string, options?: AbortOptions): Promise<Vm> {
     validateVmName(name);
-    const info = await this.fetch<VmInfo>('GET', `/v1/vms/${encodeURIComponent(name)}`);
+    const info = await this.fetch<VmInfo>('GET', `/v1/vms/${encodeURIComponent(name)}`, undefined, {
+      signal: options?.signal,
+    });
     const vm = new Vm(name, this);
     vm._setInfo(info);
     return vm;
   }
 
   /** List all VMs for the authenticated user. */
-  async listVms(): Promise<VmInfo[]> {
-    return this.fetch<VmInfo[]>('GET', '/v1/vms');
+  async listVms(options?: AbortOptions): Promise<VmInfo[]> {
+    return this.fetch<VmInfo[]>('GET', '/v1/vms', undefined, { signal: options?.signal });
   }
 
   /** Destroy a VM by name. */
-  async destroyVm(name: string): Promise<void> {
+  async destroyVm(name: string, options?: AbortOptions): Promise<void> {
     validateVmName(name);
-    await this.fetch<void>('DELETE', `/v1/vms/${encodeURIComponent(name)}`);
+    try {
+      await this.fetch<void>('DELETE', `/v1/vms/${encodeURIComponent(name)}`, undefined, {
+        signal: options?.signal,
+      });
+    } catch (err) {
+      if (err instanceof NoidAPIError && err.isNotFound()) this.untrack(name);
+      throw err;
+    }
+    this.untrack(name);
   }
 
   // ─── Server Info ───
 
-  async health(): Promise<{ status: string }> {
+  async health(options?: AbortOptions): Promise<{ status: string }> {
     return request(this.baseUrl, {
       method: 'GET',
       path: '/healthz',
       timeout: this.timeout,
+      signal: options?.signal,
+      retry: this.retry,
+      middleware: this._middleware,
     });
   }
 
-  async version(): Promise<VersionInfo> {
+  async version(options?: AbortOptions): Promise<VersionInfo> {
     return request(this.baseUrl, {
       method: 'GET',
       path: '/version',
       timeout: this.timeout,
+      signal: options?.signal,
+      retry: this.retry,
+      middleware: this._middleware,
     });
   }
 
-  async whoami(): Promise<WhoamiResponse> {
-    return this.fetch('GET', '/v1/whoami');
+  async whoami(options?: AbortOptions): Promise<WhoamiResponse> {
+    return this.fetch('GET', '/v1/whoami', undefined, { signal: options?.signal });
+  }
+
+  async capabilities(options?: AbortOptions): Promise<Capabilities> {
+    return this.fetch('GET', '/v1/capabilities', undefined, { signal: options?.signal });
+  }
+
+  /**
+   * Whether the server applies TTY resize frames (`features.tty_resize`).
+   * When false, `resize()` and initial rows/cols are silently ignored by the server.
+   * The capabilities response is fetched once and cached.
+   */
+  async supportsResize(): Promise<boolean> {
+    return this.hasFeature('tty_resize');
   }
 
-  async capabilities(): Promise<Capabilities> {
-    return this.fetch('GET', '/v1/capabilities');
+  /**
+   * Whether the server delivers `{"signal": name}` frames to exec processes
+   * (`features.signals`). When false, `cmd.signal()` can only type ^C / ^\ into a tty.
+   * The capabilities response is fetched once and cached.
+   */
+  async supportsSignals(): Promise<boolean> {
+    return this.hasFeature('signals');
   }
 
   // ─── Internal ───
 
-  /** @internal Authenticated fetch helper */
-  async fetch<T>(method: string, path: string, body?: unknown): Promise<T> {
+  /**
+   * @internal Authenticated fetch helper.
+   * GET and DELETE are retried under the client policy; `retry` overrides that per call.
+   */
+  async fetch<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    options?: { retry?: boolean; signal?: AbortSignal },
+  ): Promise<T> {
+    const httpMethod = method as RequestOptions['method'];
+    const idempotent = httpMethod === 'GET' || httpMethod === 'DELETE';
     return request<T>(this.baseUrl, {
-      method: method as 'GET' | 'POST' | 'PUT' | 'DELETE',
+      method: httpMethod,
       path,
       body,
       token: this.token,
       timeout: this.timeout,
+      signal: options?.signal,
+      retry: (options?.retry ?? idempotent) ? this.retry : undefined,
+      middleware: this._middleware,
     });
   }
 
+  /** @internal A WebSocket to `url` with this client's token, middleware and timeouts */
+  createWebSocket(url: string): NoidWebSocket {
+    return new NoidWebSocket(url, this.token, this.middleware, {
+      connectTimeoutMs: this.timeout,
+      pingIntervalMs: this.pingInterval,
+    });
+  }
+
+  /** @internal Remember a VM this client created, for cleanupOnExit */
+  _trackCreated(name: string): void {
+    if (!this.cleanupOnExit) return;
+    this.createdVms.add(name);
+    this.unregisterCleanup ??= registerCleanup(async () => {
+      await Promise.allSettled([...this.createdVms].map((vm) => this.destroyVm(vm)));
+    });
+  }
+
+  private untrack(name: string): void {
+    if (this.createdVms.delete(name) && this.createdVms.size === 0) {
+      this.unregisterCleanup?.();
+      this.unregisterCleanup = undefined;
+    }
+  }
+
+  /** Read an optional protocol feature from the cached capabilities response */
+  private async hasFeature(name: keyof NonNullable<Capabilities['features']>): Promise<boolean> {
+    this.capabilitiesCache ??= this.capabilities();
+    try {
+      const caps = await this.capabilitiesCache;
+      return caps.features?.[name] === true;
+    } catch (err) {
+      this.capabilitiesCache = undefined;
+      throw err;
+    }
+  }
+
   /** @internal Convert HTTP URL to WebSocket URL */
   wsUrl(path: string): string {
     const url = new URL(path, this.baseUrl);
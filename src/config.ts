@@ -0,0 +1,96 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { NoidValidationError } from './errors.js';
+import { isTable, parseToml, type TomlTable } from './internal/toml.js';
+import type { NoidClientOptions, NoidConfigOptions } from './types.js';
+
+/** Default noid-cli config location, relative to the home directory. */
+const DEFAULT_CONFIG_PATH = join('.noid', 'config.toml');
+
+/**
+ * Resolve client options the same way noid-cli's `load_config()` does.
+ *
+ * Precedence, highest first:
+ * 1. `[profiles.<name>]` values, when a profile is selected (`options.profile` or `NOID_PROFILE`)
+ * 2. Top-level `url` / `token` keys in the config file
+ * 3. `NOID_URL` / `NOID_TOKEN` environment variables
+ *
+ * The file is `options.path`, else `NOID_CONFIG`, else `~/.noid/config.toml`.
+ * Only the default location may be missing; the environment then supplies everything.
+ */
+export function loadConfig(options?: NoidConfigOptions): NoidClientOptions {
+  const env = options?.env ?? process.env;
+  const explicitPath = options?.path ?? env.NOID_CONFIG;
+  const path = resolve(explicitPath ?? join(homedir(), DEFAULT_CONFIG_PATH));
+  const profile = options?.profile ?? env.NOID_PROFILE;
+
+  let file: TomlTable = {};
+  if (existsSync(path)) {
+    file = readConfigFile(path);
+  } else if (explicitPath !== undefined) {
+    throw new NoidValidationError('path', `Config file not found: ${path}`);
+  }
+
+  let section: TomlTable = {};
+  if (profile) {
+    const profiles = file.profiles;
+    const selected =
+      isTable(profiles) && Object.hasOwn(profiles, profile) ? profiles[profile] : undefined;
+    if (!isTable(selected)) {
+      throw new NoidValidationError('profile', `Profile '${profile}' not found in ${path}`);
+    }
+    section = selected;
+  }
+
+  const source = profile ? `${path} (profile '${profile}')` : path;
+  const baseUrl =
+    readString(section, 'url', source) ?? readString(file, 'url', path) ?? env.NOID_URL;
+  const token =
+    readString(section, 'token', source) ?? readString(file, 'token', path) ?? env.NOID_TOKEN;
+
+  if (!baseUrl) {
+    throw new NoidValidationError('url', `No server URL in ${source} and NOID_URL is not set`);
+  }
+  if (!token) {
+    throw new NoidValidationError('token', `No token in ${source} and NOID_TOKEN is not set`);
+  }
+
+  return {
+    baseUrl,
+    token,
+    timeout: options?.timeout,
+    pingInterval: options?.pingInterval,
+    retry: options?.retry,
+    middleware: options?.middleware,
+    cleanupOnExit: options?.cleanupOnExit,
+  };
+}
+
+function readConfigFile(path: string): TomlTable {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (err) {
+    throw new NoidValidationError('path', `Cannot read config file ${path}: ${errMessage(err)}`);
+  }
+
+  try {
+    return parseToml(text);
+  } catch (err) {
+    throw new NoidValidationError('path', `Invalid config file ${path}: ${errMessage(err)}`);
+  }
+}
+
+function readString(table: TomlTable, key: string, source: string): string | undefined {
+  const value = table[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') {
+    throw new NoidValidationError(key, `'${key}' in ${source} must be a string`);
+  }
+  return value;
+}
+
+function errMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
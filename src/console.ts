@@ -1,22 +1,121 @@
+import { randomBytes } from 'node:crypto';
 import { EventEmitter } from 'node:events';
 import { PassThrough, type Readable, type Writable } from 'node:stream';
 import { StreamID } from './constants.js';
-import { NoidWebSocket } from './internal/websocket.js';
-import type { ConsoleOptions, EnvVars } from './types.js';
+import {
+  type NoidAbortError,
+  NoidConnectionError,
+  NoidError,
+  NoidValidationError,
+} from './errors.js';
+import { fsError, scriptCommand } from './fs.js';
+import { abortError, combineSignals, onAbort, sleep, throwIfAborted } from './internal/abort.js';
+import { ExpectBuffer } from './internal/expect.js';
+import { backoffDelay, type RetryPolicy } from './internal/http.js';
+import { Scrollback } from './internal/scrollback.js';
+import { validateTtySize } from './internal/validation.js';
+import type { NoidWebSocket } from './internal/websocket.js';
+import { type SessionEvent, SessionRecorder, type SessionTap } from './recording.js';
+import { quoteShellArg } from './shell.js';
+import { attachTerminal } from './terminal.js';
+import type {
+  AbortOptions,
+  AttachOptions,
+  AttachResult,
+  ConnectionCloseInfo,
+  ConsoleOpenInfo,
+  ConsoleOptions,
+  EnvVars,
+  ExpectMatch,
+  ExpectOptions,
+  ExpectPattern,
+  RecordOptions,
+} from './types.js';
 import type { Vm } from './vm.js';
 
+/** Default for ConsoleOptions.bufferSize, in characters. */
+const DEFAULT_BUFFER_SIZE = 65_536;
+/** Default for ConsoleOptions.envTimeout, in milliseconds. */
+const DEFAULT_ENV_TIMEOUT_MS = 10_000;
+/** Default for ConsoleOptions.scrollback, in bytes. */
+const DEFAULT_SCROLLBACK_BYTES = 65_536;
+/** Defaults for ConsoleOptions.reconnect. */
+const DEFAULT_RECONNECT_ATTEMPTS = 10;
+const DEFAULT_RECONNECT_BASE_DELAY_MS = 500;
+const DEFAULT_RECONNECT_MAX_DELAY_MS = 30_000;
+
+/** Writes stdin to a new file only its owner can read: `sh -c <script> sh <path>`. */
+const ENV_FILE_SCRIPT = 'umask 077 && cat > "$1"';
+
+/**
+ * Interactive console session. Created by `vm.console()`; call start() to connect.
+ *
+ * With the `reconnect` option, a dropped connection is re-established with backoff:
+ * `stdin` and `stdout` stay open, and input typed meanwhile is sent once it is back.
+ *
+ * Emits:
+ * - 'open' (info: ConsoleOpenInfo) — connected, and any `env` confirmed set in the shell
+ * - 'reconnecting' (attempt: number, delayMs: number, err: Error) — the connection
+ *   dropped (or the previous attempt failed); retrying after `delayMs`
+ * - 'reconnected' (attempt: number) — the console is attached again
+ * - 'close' (info?: ConnectionCloseInfo) — the session ended; `info` says how the
+ *   WebSocket closed
+ * - 'error' (Error) — connection error, such as a missed keepalive pong or giving up on
+ *   reconnecting (only emitted when a listener is attached; 'close' follows)
+ */
 export class VmConsole extends EventEmitter {
   readonly stdin: Writable;
   readonly stdout: Readable;
 
   private readonly vm: Vm;
   private readonly options?: ConsoleOptions;
+  private readonly output: ExpectBuffer;
+  private readonly history: Scrollback;
+  private readonly replays = new Set<PassThrough>();
+  private readonly reconnectPolicy?: RetryPolicy;
+  private readonly queuedInput: Buffer[] = [];
   private ws?: NoidWebSocket;
+  private abortErr?: NoidAbortError;
+  private size?: { cols: number; rows: number };
+  private readonly taps = new Set<SessionTap>();
+  /** Outstanding _hold() calls from recorders */
+  private holds = 0;
+  private detachSession: () => void = () => {};
+  private reconnecting?: AbortController;
+  /** Reconnect attempts since output last arrived; a socket that drops at once keeps counting */
+  private reconnectAttempts = 0;
+  private opened = false;
+  private closing = false;
+  private ended = false;
 
   constructor(vm: Vm, options?: ConsoleOptions) {
     super();
     this.vm = vm;
     this.options = options;
+    this.output = new ExpectBuffer(options?.bufferSize ?? DEFAULT_BUFFER_SIZE);
+    this.history = new Scrollback(options?.scrollback ?? DEFAULT_SCROLLBACK_BYTES);
+    if (options?.reconnect) {
+      const retry = options.reconnect === true ? {} : options.reconnect;
+      const maxAttempts = retry.maxAttempts ?? DEFAULT_RECONNECT_ATTEMPTS;
+      if (
+        maxAttempts !== Number.POSITIVE_INFINITY &&
+        (!Number.isInteger(maxAttempts) || maxAttempts < 1)
+      ) {
+        throw new NoidValidationError(
+          'reconnect.maxAttempts',
+          'Must be a positive integer or Infinity',
+        );
+      }
+      this.reconnectPolicy = {
+        maxAttempts,
+        baseDelayMs: retry.baseDelayMs ?? DEFAULT_RECONNECT_BASE_DELAY_MS,
+        maxDelayMs: retry.maxDelayMs ?? DEFAULT_RECONNECT_MAX_DELAY_MS,
+        jitter: retry.jitter ?? true,
+      };
+    }
+    if (options?.rows !== undefined || options?.cols !== undefined) {
+      this.size = { cols: options.cols ?? 80, rows: options.rows ?? 24 };
+    }
 
     const stdinPassthrough = new PassThrough();
     const stdoutPassthrough = new PassThrough();
@@ -25,14 +124,7 @@ export class VmConsole extends EventEmitter {
     this.stdout = stdoutPassthrough;
 
     // Pipe stdin writes to WebSocket with CHANNEL_STDIN prefix
-    stdinPassthrough.on('data', (chunk: Buffer) => {
-      if (this.ws) {
-        const frame = Buffer.alloc(1 + chunk.length);
-        frame[0] = StreamID.Stdin;
-        chunk.copy(frame, 1);
-        this.ws.send(frame);
-      }
-    });
+    stdinPassthrough.on('data', (chunk: Buffer) => this.sendRawStdin(chunk));
   }
 
   private buildUrl(): string {
@@ -40,88 +132,379 @@ export class VmConsole extends EventEmitter {
   }
 
   /**
-   * Inject environment variables by sending shell export commands through stdin.
-   * Leading space prevents commands from appearing in shell history.
+   * Inject environment variables without typing their values into the console:
+   * they are written over exec to a private file in the guest, which the shell
+   * sources and deletes. Only the file's path shows up in console output. The
+   * shell confirms with a marker; anything else rejects.
+   * Leading space prevents the command from appearing in shell history.
    */
-  private async injectEnvVars(env: EnvVars): Promise<void> {
-    for (const [key, value] of Object.entries(env)) {
-      const escaped = value.replace(/'/g, "'\\''");
-      const cmd = ` export ${key}='${escaped}'\r`;
-      this.sendRawStdin(Buffer.from(cmd));
+  private async injectEnvVars(env: EnvVars, signal?: AbortSignal): Promise<void> {
+    const fish = this.options?.envShell === 'fish';
+    const id = randomBytes(8).toString('hex');
+    const path = `/tmp/.noid-env-${id}`;
+    const script = Object.entries(env)
+      .map(([key, value]) =>
+        fish ? `set -gx ${key} ${quoteFish(value)}\n` : `export ${key}=${quoteShellArg(value)}\n`,
+      )
+      .join('');
+
+    const cmd = this.vm.spawn(scriptCommand(ENV_FILE_SCRIPT, path, []), { signal });
+    cmd.stdin.end(script);
+    const { exitCode, stderr } = await cmd.output();
+    if (exitCode !== 0) {
+      throw new NoidError('Console env injection failed: could not write the env file', {
+        cause: fsError('writeFile', path, exitCode, stderr),
+      });
     }
 
-    // Send a sync marker and wait for it to echo back
-    const marker = `__NOID_ENV_SYNC_${Date.now().toString(16)}__`;
-    this.sendRawStdin(Buffer.from(` echo ${marker}\r`));
-
-    return new Promise<void>((resolve) => {
-      let buf = '';
-      const timeout = setTimeout(() => {
-        this.ws?.removeListener('stdout', onData);
-        resolve(); // Resolve even if sync fails (best-effort)
-      }, 3000);
-
-      const onData = (data: Buffer) => {
-        buf += data.toString();
-        if (buf.includes(marker)) {
-          clearTimeout(timeout);
-          this.ws?.removeListener('stdout', onData);
-          resolve();
-        }
-      };
+    // The quotes keep the markers themselves out of the echoed command line
+    const ok = `__NOID_ENV_OK_${id}__`;
+    const failed = `__NOID_ENV_FAILED_${id}__`;
+    const source = fish ? 'source' : '.';
+    this.sendRawStdin(
+      Buffer.from(
+        ` ${source} ${path} && echo __NOID_ENV_"OK"_${id}__ || echo __NOID_ENV_"FAILED"_${id}__; ` +
+          `rm -f ${path}\r`,
+      ),
+    );
 
-      this.ws?.on('stdout', onData);
-    });
+    try {
+      const { index } = await this.output.wait(
+        [new RegExp(`${ok}\\r?\\n`), new RegExp(`${failed}\\r?\\n`)],
+        { timeout: this.options?.envTimeout ?? DEFAULT_ENV_TIMEOUT_MS, signal },
+        'Console env injection',
+      );
+      if (index === 1) {
+        throw new NoidError(
+          `Console env injection failed: the shell could not source ${path}` +
+            (fish ? '' : " (for fish, set envShell: 'fish')"),
+        );
+      }
+    } catch (err) {
+      // The shell never got to it: remove the file so the values do not linger
+      await this.vm.fs.rm(path, { force: true }).catch(() => {});
+      throw err;
+    }
   }
 
   /** Send raw bytes to stdin (with CHANNEL_STDIN prefix) */
   private sendRawStdin(data: Buffer): void {
-    if (this.ws) {
-      const frame = Buffer.alloc(1 + data.length);
-      frame[0] = StreamID.Stdin;
-      data.copy(frame, 1);
-      this.ws.send(frame);
+    if (!this.ws) return;
+    this.tapAll('i', data);
+    if (this.reconnecting) {
+      // Typed while the connection is down: deliver once it is back
+      this.queuedInput.push(data);
+      return;
     }
+    const frame = Buffer.alloc(1 + data.length);
+    frame[0] = StreamID.Stdin;
+    data.copy(frame, 1);
+    this.ws.send(frame);
   }
 
-  /** Connect WebSocket console session. */
-  async start(): Promise<void> {
-    const url = this.buildUrl();
-    this.ws = new NoidWebSocket(url, this.vm.client.token);
+  /**
+   * Connect WebSocket console session.
+   * `signal` cancels the connect; the console-level `signal` option also closes an open session.
+   */
+  async start(options?: AbortOptions): Promise<void> {
+    const sessionSignal = this.options?.signal;
+    throwIfAborted(sessionSignal, 'Console start');
+    throwIfAborted(options?.signal, 'Console start');
+
+    const env = Object.keys(this.options?.env ?? {});
+    this.closing = false;
+    this.output.reset();
+    const ws = this.openSocket();
 
-    this.ws.on('stdout', (data: Buffer) => {
-      (this.stdout as PassThrough).write(data);
+    this.detachSession = onAbort(sessionSignal, () => {
+      this.abortErr = abortError(sessionSignal as AbortSignal, 'Console');
+      this.close();
     });
+    const detachStart = onAbort(options?.signal, () => {
+      this.abortErr = abortError(options?.signal as AbortSignal, 'Console start');
+      this.close();
+    });
+
+    try {
+      await ws.connect();
+      if (this.abortErr) {
+        // Aborted while middleware ran, before the socket existed to be closed
+        this.close();
+        throw this.abortErr;
+      }
+
+      // Apply initial dimensions before anything is drawn
+      if (this.size) {
+        ws.sendResize(this.size.cols, this.size.rows);
+      }
 
-    this.ws.on('close', () => {
-      (this.stdout as PassThrough).end();
-      this.emit('close');
+      // Inject env vars client-side (if provided) before emitting 'open'
+      if (env.length > 0) {
+        const combined = combineSignals(sessionSignal, options?.signal);
+        try {
+          await this.injectEnvVars(this.options?.env as EnvVars, combined.signal);
+        } catch (err) {
+          // A shell without the expected environment is not usable
+          this.close();
+          throw err;
+        } finally {
+          combined.dispose();
+        }
+      }
+    } catch (err) {
+      throw this.abortErr ?? err;
+    } finally {
+      detachStart();
+    }
+
+    this.opened = true;
+    const info: ConsoleOpenInfo = { env };
+    this.emit('open', info);
+  }
+
+  /** Create the socket for a connect or reconnect and route its events here. */
+  private openSocket(): NoidWebSocket {
+    const ws = this.vm.client.createWebSocket(this.buildUrl());
+    this.ws = ws;
+    if (this.holds > 0) ws.pause();
+
+    ws.on('stdout', (data: Buffer) => {
+      this.reconnectAttempts = 0;
+      this.output.push(data);
+      this.history.push(data);
+      this.tapAll('o', data);
+      (this.stdout as PassThrough).write(data);
+      for (const stream of this.replays) stream.write(data);
     });
 
-    this.ws.on('error', (err: Error) => {
-      this.emit('error', err);
+    ws.on('close', (info: ConnectionCloseInfo) => {
+      // Failed reconnect attempts are handled by reconnect()
+      if (ws !== this.ws || this.reconnecting || this.ended) return;
+      if (this.opened && this.reconnectPolicy && !this.closing) {
+        void this.reconnect(this.reconnectPolicy, info);
+      } else {
+        this.finish(info);
+      }
     });
 
-    await this.ws.connect();
+    ws.on('error', (err: Error) => this.emitError(err));
+
+    return ws;
+  }
+
+  /** Re-attach to the VM console after the connection dropped, backing off between attempts. */
+  private async reconnect(policy: RetryPolicy, dropped: ConnectionCloseInfo): Promise<void> {
+    const controller = new AbortController();
+    this.reconnecting = controller;
+    let lastErr: Error =
+      dropped.error ?? new NoidConnectionError(`Console connection lost (code ${dropped.code})`);
 
-    // Inject env vars client-side (if provided) before emitting 'open'
-    if (this.options?.env && Object.keys(this.options.env).length > 0) {
-      await this.injectEnvVars(this.options.env);
+    while (this.reconnectAttempts < policy.maxAttempts && !controller.signal.aborted) {
+      const attempt = ++this.reconnectAttempts;
+      const delayMs = backoffDelay(policy, attempt);
+      this.emit('reconnecting', attempt, delayMs, lastErr);
+      try {
+        await sleep(delayMs, controller.signal);
+        const ws = this.openSocket();
+        await ws.connect(controller.signal);
+        if (this.size) {
+          ws.sendResize(this.size.cols, this.size.rows);
+        }
+        this.reconnecting = undefined;
+        for (const data of this.queuedInput.splice(0)) {
+          ws.send(Buffer.concat([Buffer.from([StreamID.Stdin]), data]));
+        }
+        this.emit('reconnected', attempt);
+        return;
+      } catch (err) {
+        lastErr = err as Error;
+      }
     }
 
-    this.emit('open');
+    this.reconnecting = undefined;
+    this.queuedInput.length = 0;
+    if (!controller.signal.aborted) {
+      this.emitError(
+        new NoidConnectionError(
+          `Console reconnect failed after ${this.reconnectAttempts} attempts: ${lastErr.message}`,
+          { cause: lastErr },
+        ),
+      );
+    }
+    this.finish(this.ws?.closeInfo ?? dropped);
+  }
+
+  /** Connection errors also end in 'close', so only emit them to listeners that asked. */
+  private emitError(err: Error): void {
+    if (this.listenerCount('error') > 0) this.emit('error', err);
   }
 
-  /** Disconnect console session. */
+  /** The session is over for good: end the streams and pending waits, and emit 'close'. */
+  private finish(info?: ConnectionCloseInfo): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.detachSession();
+    this.output.end(
+      this.abortErr ?? new NoidConnectionError('Console closed while waiting for output'),
+    );
+    (this.stdout as PassThrough).end();
+    for (const stream of this.replays) stream.end();
+    this.replays.clear();
+    this.tapAll('end');
+    this.emit('close', info);
+  }
+
+  /**
+   * Connect this console to the local terminal until the session closes or the user
+   * detaches with Enter, `~`, `.`. Starts the console if needed. Raw mode, window
+   * size and input are handled, and the terminal is restored however it ends.
+   * Detaching leaves the session open, so it can be attached again later.
+   */
+  async attachToTerminal(options?: AttachOptions): Promise<AttachResult> {
+    return attachTerminal(
+      this,
+      {
+        start: this.ws ? undefined : () => this.start({ signal: options?.signal }),
+        ended: async () => undefined,
+      },
+      options,
+    );
+  }
+
+  // ─── Scripted interaction ───
+
+  /** Type `data` into the console. The console must be started. */
+  send(data: string | Buffer): void {
+    if (!this.ws) {
+      throw new NoidConnectionError('Console is not started');
+    }
+    this.sendRawStdin(typeof data === 'string' ? Buffer.from(data) : data);
+  }
+
+  /** Type a line followed by Enter (`\r`). */
+  sendLine(line = ''): void {
+    this.send(`${line}\r`);
+  }
+
+  /**
+   * Wait until console output contains `pattern`. Output is searched with ANSI
+   * escapes removed, and the match consumes it: the next expect() only sees
+   * what came after. Output received before the call counts, so send a command
+   * and then expect its result. Rejects with NoidTimeoutError after `timeout`.
+   */
+  async expect(pattern: ExpectPattern, options?: ExpectOptions): Promise<ExpectMatch> {
+    return this.output.wait([pattern], options, 'Console expect');
+  }
+
+  /**
+   * Wait for whichever pattern appears first in console output; `index` in the
+   * result says which one. Matching works as in expect().
+   */
+  async expectAny(
+    patterns: readonly ExpectPattern[],
+    options?: ExpectOptions,
+  ): Promise<ExpectMatch> {
+    if (patterns.length === 0) {
+      throw new NoidValidationError('patterns', 'At least one pattern is required');
+    }
+    return this.output.wait(patterns, options, 'Console expect');
+  }
+
+  /** Output not yet consumed by expect(), ANSI escapes removed (at most `bufferSize` characters). */
+  get buffer(): string {
+    return this.output.contents;
+  }
+
+  /** Discard unconsumed output, so the next expect() only sees new output. */
+  clearBuffer(): void {
+    this.output.clear();
+  }
+
+  /**
+   * The most recent output (up to `scrollback` bytes, escapes included), for
+   * redrawing a terminal that attaches late.
+   */
+  scrollback(): Buffer {
+    return this.history.contents();
+  }
+
+  /**
+   * A new stream of the scrollback followed by live output, e.g. for a browser
+   * terminal that opens mid-session. It ends when the console closes; destroy it
+   * to stop receiving output. Each stream buffers independently of `stdout`.
+   */
+  replay(): Readable {
+    const stream = new PassThrough();
+    stream.write(this.history.contents());
+    if (this.ended) {
+      stream.end();
+      return stream;
+    }
+    this.replays.add(stream);
+    stream.once('close', () => this.replays.delete(stream));
+    return stream;
+  }
+
+  /** How the console's WebSocket closed (code, reason, and any liveness failure), once it has. */
+  closeInfo(): ConnectionCloseInfo | undefined {
+    return this.ended ? this.ws?.closeInfo : undefined;
+  }
+
+  /** Disconnect console session (and stop any reconnect in progress). */
   close(): void {
+    this.closing = true;
+    this.reconnecting?.abort();
     this.ws?.close();
   }
 
   /**
-   * Resize TTY.
-   * NOTE: noid-server does not currently handle resize messages.
+   * Resize TTY by sending a CHANNEL_RESIZE frame. Before start() this sets the initial size.
+   * Servers without `features.tty_resize` ignore the frame; check `client.supportsResize()`.
+   */
+  resize(cols: number, rows: number): void {
+    validateTtySize(cols, rows);
+    this.size = { cols, rows };
+    this.ws?.sendResize(cols, rows);
+    this.tapAll('r', `${cols}x${rows}`);
+  }
+
+  /**
+   * Record the session as an asciinema v2 cast to a file path or stream, until
+   * the session closes or the recorder is stopped. Play it back with playRecording().
    */
-  resize(_cols: number, _rows: number): void {
-    // Reserved — server does not process resize frames yet.
+  record(target: string | Writable, options?: RecordOptions): SessionRecorder {
+    return new SessionRecorder(this, target, options);
+  }
+
+  /** @internal Subscribe to session I/O (used by SessionRecorder) */
+  _tap(tap: SessionTap): () => void {
+    this.taps.add(tap);
+    return () => this.taps.delete(tap);
   }
+
+  /** @internal */
+  _terminalSize(): { cols: number; rows: number } {
+    return this.size ?? { cols: 80, rows: 24 };
+  }
+
+  /** @internal Pause output until the returned function runs (used by SessionRecorder) */
+  _hold(): () => void {
+    this.holds++;
+    this.ws?.pause();
+    let held = true;
+    return () => {
+      if (!held) return;
+      held = false;
+      if (--this.holds === 0) this.ws?.resume();
+    };
+  }
+
+  private tapAll(event: SessionEvent, data?: Buffer | string): void {
+    for (const tap of this.taps) tap(event, data);
+  }
+}
+
+/** fish single quotes: only `\\` and `\'` are escapes inside them. */
+function quoteFish(value: string): string {
+  return `'${value.replace(/[\\']/g, '\\$&')}'`;
 }
@@ -7,8 +7,25 @@ export enum StreamID {
   Resize = 0x04,
 }
 
+/** Linux signal numbers, used for the 128 + n exit code convention. */
+export const SIGNAL_NUMBERS = {
+  SIGHUP: 1,
+  SIGINT: 2,
+  SIGQUIT: 3,
+  SIGKILL: 9,
+  SIGUSR1: 10,
+  SIGUSR2: 12,
+  SIGTERM: 15,
+} as const;
+
+/** Exit code reported for timed-out commands, as in coreutils `timeout`. */
+export const TIMEOUT_EXIT_CODE = 124;
+
 export const MAX_ENV_VARS = 64;
 export const MAX_ENV_VALUE_LEN = 32 * 1024; // 32 KiB
 export const DEFAULT_TIMEOUT_MS = 30_000;
+export const DEFAULT_RETRY_MAX_ATTEMPTS = 3;
+export const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+export const DEFAULT_RETRY_MAX_DELAY_MS = 10_000;
 export const WS_PING_INTERVAL_MS = 30_000;
 export const TOKEN_PREFIX = 'noid_tok_';
@@ -34,23 +34,44 @@ export class NoidAPIError extends NoidError {
   }
 }
 
+/** Characters of stdout/stderr kept on NoidExecError (the end of the output). */
+const EXEC_ERROR_TAIL_CHARS = 4096;
+
+/** Where a failed command ran, for NoidExecError. */
+export interface ExecErrorContext {
+  command?: string[];
+  vmName?: string;
+  /** Captured stderr (WebSocket exec only; HTTP exec has no stderr) */
+  stderr?: string;
+}
+
 /** Command execution errors (non-zero exit) */
 export class NoidExecError extends NoidError {
   readonly exitCode: number | null;
+  /** Last 4096 characters of stdout */
   readonly stdout: string;
+  /** Last 4096 characters of stderr ('' for HTTP exec) */
+  readonly stderr: string;
   readonly timedOut: boolean;
   readonly truncated: boolean;
+  readonly command: string[];
+  readonly vmName?: string;
 
-  constructor(result: ExecResult) {
+  constructor(result: ExecResult, context?: ExecErrorContext) {
+    const what = context?.command?.length ? `Command '${context.command.join(' ')}'` : 'Command';
+    const where = context?.vmName ? ` on VM '${context.vmName}'` : '';
     const msg = result.timed_out
-      ? 'Command timed out'
-      : `Command failed with exit code ${result.exit_code}`;
+      ? `${what} timed out${where}`
+      : `${what} failed with exit code ${result.exit_code}${where}`;
     super(msg);
     this.name = 'NoidExecError';
     this.exitCode = result.exit_code;
-    this.stdout = result.stdout;
+    this.stdout = result.stdout.slice(-EXEC_ERROR_TAIL_CHARS);
+    this.stderr = (context?.stderr ?? '').slice(-EXEC_ERROR_TAIL_CHARS);
     this.timedOut = result.timed_out;
     this.truncated = result.truncated;
+    this.command = context?.command ?? [];
+    this.vmName = context?.vmName;
   }
 }
 
@@ -72,3 +93,50 @@ export class NoidValidationError extends NoidError {
     this.field = field;
   }
 }
+
+/** Operation cancelled through an AbortSignal */
+export class NoidAbortError extends NoidError {
+  /** The signal's `reason`, if any */
+  readonly reason: unknown;
+
+  constructor(message: string, reason?: unknown) {
+    super(message, reason instanceof Error ? { cause: reason } : undefined);
+    this.name = 'NoidAbortError';
+    this.reason = reason;
+  }
+}
+
+/** A client-side wait (e.g. `console.expect()`) did not finish in time */
+export class NoidTimeoutError extends NoidError {
+  /** The timeout that elapsed, in milliseconds */
+  readonly timeoutMs: number;
+
+  constructor(message: string, timeoutMs: number) {
+    super(message);
+    this.name = 'NoidTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** errno-style codes reported by `vm.fs` operations */
+export type FilesystemErrorCode = 'ENOENT' | 'ENOTDIR' | 'EISDIR' | 'EACCES' | 'EEXIST' | 'EIO';
+
+/** Guest filesystem operation failed (`vm.fs`) */
+export class NoidFilesystemError extends NoidError {
+  readonly code: FilesystemErrorCode;
+  readonly path: string;
+  /** Operation that failed, e.g. 'readFile' */
+  readonly operation: string;
+  /** Guest stderr, if any (useful for EIO) */
+  readonly stderr: string;
+
+  constructor(operation: string, path: string, code: FilesystemErrorCode, stderr = '') {
+    const detail = stderr.trim() ? `: ${stderr.trim()}` : '';
+    super(`${code}: ${operation} '${path}' failed${detail}`);
+    this.name = 'NoidFilesystemError';
+    this.code = code;
+    this.path = path;
+    this.operation = operation;
+    this.stderr = stderr;
+  }
+}
@@ -1,9 +1,64 @@
-import { EventEmitter } from 'node:events';
-import { PassThrough, type Readable, type Writable } from 'node:stream';
-import { NoidWebSocket } from './internal/websocket.js';
-import type { ExecResult, SpawnOptions } from './types.js';
+import { EventEmitter, once } from 'node:events';
+import { createInterface } from 'node:readline';
+import { PassThrough, type Readable, Writable } from 'node:stream';
+import { SIGNAL_NUMBERS, StreamID, TIMEOUT_EXIT_CODE } from './constants.js';
+import {
+  type NoidAbortError,
+  NoidConnectionError,
+  type NoidError,
+  NoidExecError,
+  NoidValidationError,
+} from './errors.js';
+import { abortError, onAbort, throwIfAborted } from './internal/abort.js';
+import { validateTtySize } from './internal/validation.js';
+import type { NoidWebSocket } from './internal/websocket.js';
+import { type SessionEvent, SessionRecorder, type SessionTap } from './recording.js';
+import { attachTerminal } from './terminal.js';
+import type {
+  AbortOptions,
+  AttachOptions,
+  AttachResult,
+  CommandEvent,
+  CommandOutput,
+  CommandSignal,
+  ConnectionCloseInfo,
+  ExecResult,
+  ExitStatus,
+  RecordOptions,
+  SpawnOptions,
+} from './types.js';
 import type { Vm } from './vm.js';
 
+/** Terminal control characters that make the tty line discipline raise a signal. */
+const TTY_SIGNAL_CHARS: Partial<Record<CommandSignal, string>> = {
+  SIGINT: '\x03',
+  SIGQUIT: '\x1c',
+};
+
+/** Largest stdin payload sent in a single frame. */
+const STDIN_FRAME_MAX = 64 * 1024;
+
+/** ^D — end-of-file for a tty in canonical mode. */
+const TTY_EOF = Buffer.from([0x04]);
+
+/** Bytes of each output stream retained for NoidExecError when `check` is set. */
+const CHECK_TAIL_BYTES = 16 * 1024;
+
+/** Queued iterator events above which output streams are paused. */
+const ITERATOR_HIGH_WATER = 64;
+
+/**
+ * Streaming command execution over WebSocket.
+ *
+ * Emits:
+ * - 'spawn' — exec request sent
+ * - 'exit' (code: number, status: ExitStatus) — process exited, timed out or was killed
+ * - 'error' (Error) — server error response, or a connection error such as a missed
+ *   keepalive pong (only emitted when a listener is attached; wait() rejects either way)
+ *
+ * Besides events and streams, output can be consumed with `for await (const event of cmd)`,
+ * `cmd.lines()` or `cmd.output()`; each starts the command if start() was not called.
+ */
 export class VmCommand extends EventEmitter {
   readonly stdin: Writable;
   readonly stdout: Readable;
@@ -14,26 +69,62 @@ export class VmCommand extends EventEmitter {
   private readonly options?: SpawnOptions;
   private ws?: NoidWebSocket;
   private _exitCode: number = -1;
+  private _exitStatus?: ExitStatus;
   private exitPromise: Promise<number>;
   private resolveExit!: (code: number) => void;
+  private rejectExit!: (err: NoidError) => void;
+  private settled = false;
+  private abortErr?: NoidAbortError;
+  private serverError?: string;
+  private abortListeners: (() => void)[] = [];
+  private timeoutTimer?: ReturnType<typeof setTimeout>;
+  private size?: { cols: number; rows: number };
+  /** Server accepts `{"signal"}` text frames (`features.signals`) */
+  private signalFrames?: Promise<boolean>;
+  /** kill() or the timeout is delivering its signal before settling */
+  private terminating = false;
+  private ready: Promise<void>;
+  private resolveReady!: () => void;
+  private readonly blockedOutputs = new Set<PassThrough>();
+  /** Outstanding _hold() calls from recorders */
+  private holds = 0;
+  private readonly tails = new Map<Readable, Buffer>();
+  private readonly taps = new Set<SessionTap>();
 
   constructor(vm: Vm, command: string[], options?: SpawnOptions) {
     super();
     this.vm = vm;
     this.command = command;
     this.options = options;
+    if (options?.rows !== undefined || options?.cols !== undefined) {
+      this.size = { cols: options.cols ?? 80, rows: options.rows ?? 24 };
+    }
 
-    const stdinPassthrough = new PassThrough();
-    const stdoutPassthrough = new PassThrough();
-    const stderrPassthrough = new PassThrough();
+    // Writes before start() queue until the exec request is sent; the callback
+    // waits for the socket so a fast producer is throttled to network speed
+    this.stdin = new Writable({
+      write: (chunk: Buffer, _encoding, cb) => {
+        this.ready.then(() => this.sendStdin(chunk, cb));
+      },
+      final: (cb) => {
+        this.ready.then(() => this.sendStdinEof(cb));
+      },
+    });
+    this.stdout = new PassThrough();
+    this.stderr = new PassThrough();
 
-    this.stdin = stdinPassthrough;
-    this.stdout = stdoutPassthrough;
-    this.stderr = stderrPassthrough;
+    this.ready = new Promise<void>((resolve) => {
+      this.resolveReady = resolve;
+    });
 
-    this.exitPromise = new Promise<number>((resolve) => {
+    this.exitPromise = new Promise<number>((resolve, reject) => {
       this.resolveExit = resolve;
+      this.rejectExit = reject;
     });
+    // Aborts and disconnects reject exitPromise; don't surface that as unhandled if wait() is never called
+    this.exitPromise.catch(() => {});
+
+    this.watchSignal(options?.signal);
   }
 
   private buildUrl(): string {
@@ -45,24 +136,37 @@ export class VmCommand extends EventEmitter {
       ? Object.entries(this.options.env).map(([k, v]) => `${k}=${v}`)
       : [];
 
+    const tty = this.options?.tty ?? false;
     return JSON.stringify({
       command: this.command,
-      tty: this.options?.tty ?? false,
+      tty,
       env,
+      // Initial TTY size; servers without resize support ignore these
+      ...(tty && this.size ? { cols: this.size.cols, rows: this.size.rows } : {}),
     });
   }
 
-  /** Connect WebSocket and begin streaming. */
-  async start(): Promise<void> {
+  /**
+   * Connect WebSocket and begin streaming.
+   * Aborting `signal` (or the spawn-level signal) at any point tears the command down.
+   */
+  async start(options?: AbortOptions): Promise<void> {
+    throwIfAborted(this.options?.signal, 'Command');
+    throwIfAborted(options?.signal, 'Command');
+    this.watchSignal(options?.signal);
+
     const url = this.buildUrl();
-    this.ws = new NoidWebSocket(url, this.vm.client.token);
+    this.ws = this.vm.client.createWebSocket(url);
+    if (this.holds > 0) this.ws.pause();
 
     this.ws.on('stdout', (data: Buffer) => {
-      (this.stdout as PassThrough).write(data);
+      this.tapAll('o', data);
+      this.pushOutput(this.stdout as PassThrough, data);
     });
 
     this.ws.on('stderr', (data: Buffer) => {
-      (this.stderr as PassThrough).write(data);
+      this.tapAll('o', data);
+      this.pushOutput(this.stderr as PassThrough, data);
     });
 
     this.ws.on('message', (text: string) => {
@@ -71,16 +175,13 @@ export class VmCommand extends EventEmitter {
 
         if ('exit_code' in parsed || 'timed_out' in parsed) {
           const result = parsed as ExecResult;
-          const code = result.timed_out ? 124 : (result.exit_code ?? 0);
-          this._exitCode = code;
-          (this.stdout as PassThrough).end();
-          (this.stderr as PassThrough).end();
-          this.resolveExit(code);
-          this.emit('exit', code);
+          const code = result.timed_out ? TIMEOUT_EXIT_CODE : (result.exit_code ?? 0);
+          this.settle({ code, timedOut: result.timed_out, signal: null, signalDelivered: false });
           return;
         }
 
         if ('error' in parsed) {
+          this.serverError = String(parsed.error);
           this.emit('error', new Error(parsed.error));
           return;
         }
@@ -90,36 +191,430 @@ export class VmCommand extends EventEmitter {
     });
 
     this.ws.on('error', (err: Error) => {
-      this.emit('error', err);
+      // wait() reports connection failures too, so only emit to listeners that asked
+      if (this.listenerCount('error') > 0) this.emit('error', err);
     });
 
-    this.ws.on('close', () => {
-      if (this._exitCode === -1) {
-        (this.stdout as PassThrough).end();
-        (this.stderr as PassThrough).end();
-        this.resolveExit(-1);
+    this.ws.on('close', (info: ConnectionCloseInfo) => {
+      if (!this.settled) {
+        // Closed without an exit result: the process outcome is unknown
+        this.finish();
+        const detail = info.reason ? `${info.code}: ${info.reason}` : String(info.code);
+        const reason =
+          this.serverError ??
+          info.error?.message ??
+          `connection closed before the command exited (${detail})`;
+        this.rejectExit(
+          new NoidConnectionError(`Command did not complete: ${reason}`, { cause: info.error }),
+        );
       }
     });
 
-    await this.ws.connect();
+    try {
+      await this.ws.connect();
+    } catch (err) {
+      throw this.abortErr ?? err;
+    }
+    if (this.abortErr) {
+      // Aborted while middleware ran, before the socket existed to be closed
+      this.ws.close();
+      throw this.abortErr;
+    }
 
     this.ws.sendText(this.buildExecRequest());
+    this.resolveReady();
+
+    if (this.options?.timeout !== undefined) {
+      this.timeoutTimer = setTimeout(() => {
+        this.terminate('SIGTERM', { code: TIMEOUT_EXIT_CODE, timedOut: true });
+      }, this.options.timeout * 1000);
+    }
 
     this.emit('spawn');
   }
 
-  /** Wait for command to exit. Returns exit code. */
-  async wait(): Promise<number> {
+  /**
+   * Wait for command to exit. Returns exit code (124 on timeout, 128 + n when killed).
+   * Rejects with NoidConnectionError if the connection drops before an exit result arrives,
+   * or NoidAbortError if the command is aborted; aborting `signal` aborts the command.
+   */
+  async wait(options?: AbortOptions): Promise<number> {
+    this.watchSignal(options?.signal);
     return this.exitPromise;
   }
 
+  /**
+   * Collect all output and wait for exit.
+   * Rejects like `wait()` if the command is aborted or the connection drops.
+   */
+  async output(options?: AbortOptions): Promise<CommandOutput> {
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    this.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    this.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+
+    if (!this.ws) await this.start(options);
+    const [exitCode] = await Promise.all([
+      this.wait(options),
+      streamEnd(this.stdout),
+      streamEnd(this.stderr),
+    ]);
+
+    return {
+      stdout: Buffer.concat(stdout),
+      stderr: Buffer.concat(stderr),
+      exitCode,
+      status: this._exitStatus as ExitStatus,
+    };
+  }
+
+  /**
+   * Iterate output line by line (without trailing newlines). Once the stream ends,
+   * throws if the command was aborted or disconnected. A non-zero exit throws only with
+   * `check: true`, as NoidExecError after the last line; otherwise read exitStatus().
+   */
+  async *lines(stream: 'stdout' | 'stderr' = 'stdout'): AsyncGenerator<string> {
+    if (this[stream].readableEnded) {
+      await this.exitPromise;
+      return;
+    }
+
+    const rl = createInterface({ input: this[stream], crlfDelay: Number.POSITIVE_INFINITY });
+    try {
+      if (!this.ws) await this.start();
+      yield* rl;
+      await this.exitPromise;
+    } finally {
+      rl.close();
+    }
+  }
+
+  /**
+   * Yield stdout/stderr chunks in arrival order, then a final 'exit' event.
+   * Throws if the command is aborted or the connection drops. Breaking out early
+   * leaves the command running and discards the output it still produces.
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<CommandEvent> {
+    const queue: CommandEvent[] = [];
+    const outputs = [this.stdout, this.stderr];
+    let openStreams = outputs.filter((s) => !s.readableEnded).length;
+    let paused = false;
+    let wake: (() => void) | undefined;
+
+    const notify = () => {
+      wake?.();
+      wake = undefined;
+    };
+    const onStdout = (data: Buffer) => enqueue({ type: 'stdout', data });
+    const onStderr = (data: Buffer) => enqueue({ type: 'stderr', data });
+    const onEnd = () => {
+      openStreams--;
+      notify();
+    };
+    const enqueue = (event: CommandEvent) => {
+      queue.push(event);
+      if (queue.length >= ITERATOR_HIGH_WATER && !paused) {
+        paused = true;
+        for (const s of outputs) s.pause();
+      }
+      notify();
+    };
+
+    this.stdout.on('data', onStdout).once('end', onEnd);
+    this.stderr.on('data', onStderr).once('end', onEnd);
+
+    try {
+      if (!this.ws) await this.start();
+
+      while (true) {
+        const event = queue.shift();
+        if (event) {
+          if (queue.length === 0 && paused) {
+            paused = false;
+            for (const s of outputs) s.resume();
+          }
+          yield event;
+          continue;
+        }
+        if (openStreams === 0) break;
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+      }
+
+      const code = await this.exitPromise;
+      yield { type: 'exit', code, status: this._exitStatus as ExitStatus };
+    } finally {
+      this.stdout.off('data', onStdout).off('end', onEnd);
+      this.stderr.off('data', onStderr).off('end', onEnd);
+      // Leaving the loop early must not hold the socket paused; unread output is dropped
+      if (paused) for (const s of outputs) s.resume();
+    }
+  }
+
   /** Get current exit code (-1 if not yet exited). */
   exitCode(): number {
     return this._exitCode;
   }
 
-  /** Resize TTY. Reserved — noid-server does not handle resize for exec. */
-  resize(_cols: number, _rows: number): void {
-    // Reserved for future use.
+  /** How the command finished, or undefined while running or if it never completed. */
+  exitStatus(): ExitStatus | undefined {
+    return this._exitStatus;
+  }
+
+  /** How the WebSocket closed (code, reason, and any liveness failure), once it has. */
+  closeInfo(): ConnectionCloseInfo | undefined {
+    return this.ws?.closeInfo;
+  }
+
+  /**
+   * Send a signal to the remote process without closing the session. With
+   * `tty: true`, SIGINT and SIGQUIT are typed as ^C / ^\ for the guest terminal
+   * to raise; other signals need a server with `features.signals`
+   * (`client.supportsSignals()`, looked up on first use). Resolves false if the
+   * command is not running or the signal cannot be delivered.
+   */
+  async signal(signal: CommandSignal): Promise<boolean> {
+    if (!this.ws || this.settled || this.terminating) return false;
+    return this.deliverSignal(signal);
+  }
+
+  /**
+   * Signal the remote process and close the session; `wait()` then resolves with
+   * 128 + the signal number. When the signal cannot be delivered (see signal()),
+   * closing the session is what stops the process and `exitStatus().signalDelivered`
+   * is false. Returns false if the command is not running.
+   */
+  kill(signal: CommandSignal = 'SIGTERM'): boolean {
+    if (!this.ws || this.settled || this.terminating) return false;
+    this.terminate(signal, { code: 128 + SIGNAL_NUMBERS[signal], timedOut: false });
+    return true;
+  }
+
+  /**
+   * Forward output to a local stream. When an attached reader falls behind, stop
+   * reading the socket until every blocked stream drains or is destroyed. Streams
+   * nobody has started consuming keep buffering, so `wait()` alone still completes.
+   *
+   * The socket stays paused for as long as the reader takes: the keepalive pong
+   * check is suspended meanwhile (a pong cannot be read either) and restarts on
+   * resume, so a slow consumer is not mistaken for a dead connection.
+   */
+  private pushOutput(stream: PassThrough, data: Buffer): void {
+    if (stream.writableEnded || stream.destroyed) return;
+    if (this.options?.check) {
+      const tail = Buffer.concat([this.tails.get(stream) ?? Buffer.alloc(0), data]);
+      this.tails.set(stream, tail.subarray(-CHECK_TAIL_BYTES));
+    }
+    if (stream.write(data) || stream.readableFlowing === null) return;
+    if (this.blockedOutputs.has(stream)) return;
+
+    this.blockedOutputs.add(stream);
+    this.ws?.pause();
+    const unblock = () => {
+      stream.off('drain', unblock).off('close', unblock);
+      this.blockedOutputs.delete(stream);
+      this.resumeIfUnblocked();
+    };
+    stream.on('drain', unblock).on('close', unblock);
+  }
+
+  private sendStdin(chunk: Buffer, cb: () => void): void {
+    if (this.settled || !this.ws) {
+      cb(); // Process is gone; drop input like a closed pipe
+      return;
+    }
+
+    const ws = this.ws;
+    let offset = 0;
+    const sendNext = () => {
+      if (offset >= chunk.length || this.settled) {
+        cb();
+        return;
+      }
+      const part = chunk.subarray(offset, offset + STDIN_FRAME_MAX);
+      offset += part.length;
+      this.tapAll('i', part);
+      ws.send(Buffer.concat([Buffer.from([StreamID.Stdin]), part]), () => sendNext());
+    };
+    sendNext();
+  }
+
+  /**
+   * Signal end of input: ^D for a tty, otherwise an empty stdin frame,
+   * which the server treats as closing the process's stdin.
+   */
+  private sendStdinEof(cb: () => void): void {
+    if (this.settled || !this.ws) {
+      cb();
+      return;
+    }
+    const payload = this.options?.tty ? TTY_EOF : Buffer.alloc(0);
+    this.ws.send(Buffer.concat([Buffer.from([StreamID.Stdin]), payload]), () => cb());
+  }
+
+  /** Send `signal` one way only: a tty control character, or a signal frame if supported. */
+  private async deliverSignal(signal: CommandSignal): Promise<boolean> {
+    const ws = this.ws;
+    if (!ws) return false;
+
+    const ttyChar = TTY_SIGNAL_CHARS[signal];
+    if (this.options?.tty && ttyChar) {
+      ws.send(Buffer.concat([Buffer.from([StreamID.Stdin]), Buffer.from(ttyChar)]));
+      return true;
+    }
+    // Once per command, so a failing capabilities lookup is not retried on every call
+    this.signalFrames ??= this.vm.client.supportsSignals().catch(() => false);
+    if (!(await this.signalFrames) || this.settled) return false;
+    ws.sendText(JSON.stringify({ signal }));
+    return true;
+  }
+
+  /** Signal the process, then settle with `status` and close the session. */
+  private terminate(
+    signal: CommandSignal,
+    status: Omit<ExitStatus, 'signal' | 'signalDelivered'>,
+  ): void {
+    this.terminating = true;
+    void this.deliverSignal(signal).then((signalDelivered) => {
+      this.settle({ ...status, signal, signalDelivered });
+      this.ws?.close();
+    });
+  }
+
+  private settle(status: ExitStatus): void {
+    if (this.settled) return;
+    this._exitCode = status.code;
+    this._exitStatus = status;
+    this.finish();
+    if (this.options?.check && status.code !== 0) {
+      this.rejectExit(this.execError(status));
+    } else {
+      this.resolveExit(status.code);
+    }
+    this.emit('exit', status.code, status);
+  }
+
+  private execError(status: ExitStatus): NoidExecError {
+    const tail = (stream: Readable) => this.tails.get(stream)?.toString() ?? '';
+    return new NoidExecError(
+      {
+        stdout: tail(this.stdout),
+        exit_code: status.code,
+        timed_out: status.timedOut,
+        truncated: false,
+      },
+      { command: this.command, vmName: this.vm.name, stderr: tail(this.stderr) },
+    );
+  }
+
+  /** Stop listening for aborts and timers, end output streams and mark the command settled. */
+  private finish(): void {
+    this.settled = true;
+    this.resolveReady();
+    clearTimeout(this.timeoutTimer);
+    for (const detach of this.abortListeners) detach();
+    this.abortListeners = [];
+    (this.stdout as PassThrough).end();
+    (this.stderr as PassThrough).end();
+    this.tapAll('end');
+  }
+
+  /** Tear down the command when `signal` fires. */
+  private watchSignal(signal?: AbortSignal): void {
+    if (!signal || this.settled) return;
+    this.abortListeners.push(onAbort(signal, () => this.abort(signal)));
+  }
+
+  private abort(signal: AbortSignal): void {
+    if (this.settled) return;
+    this.abortErr = abortError(signal, 'Command');
+    this.finish();
+    this.ws?.close();
+    this.rejectExit(this.abortErr);
+  }
+
+  /**
+   * Connect a `tty: true` command to the local terminal until it exits or the user
+   * detaches with Enter, `~`, `.` (the command keeps running). Starts the command if
+   * needed; see VmConsole.attachToTerminal().
+   */
+  async attachToTerminal(options?: AttachOptions): Promise<AttachResult> {
+    if (!this.options?.tty) {
+      throw new NoidValidationError(
+        'tty',
+        'attachToTerminal() requires a command spawned with tty: true',
+      );
+    }
+    return attachTerminal(
+      this,
+      {
+        start: this.ws ? undefined : () => this.start({ signal: options?.signal }),
+        ended: () => this.wait(),
+      },
+      options,
+    );
+  }
+
+  /**
+   * Resize TTY (only meaningful with `tty: true`). Before start() this sets the initial size.
+   * Servers without `features.tty_resize` ignore the frame; check `client.supportsResize()`.
+   */
+  resize(cols: number, rows: number): void {
+    validateTtySize(cols, rows);
+    this.size = { cols, rows };
+    if (this.options?.tty && !this.settled) {
+      this.ws?.sendResize(cols, rows);
+      this.tapAll('r', `${cols}x${rows}`);
+    }
   }
+
+  /**
+   * Record a `tty: true` command as an asciinema v2 cast until it exits or the
+   * recorder is stopped; see VmConsole.record(). Output from stdout and stderr is recorded.
+   */
+  record(target: string | Writable, options?: RecordOptions): SessionRecorder {
+    if (!this.options?.tty) {
+      throw new NoidValidationError('tty', 'record() requires a command spawned with tty: true');
+    }
+    return new SessionRecorder(this, target, options);
+  }
+
+  /** @internal Subscribe to command I/O (used by SessionRecorder) */
+  _tap(tap: SessionTap): () => void {
+    this.taps.add(tap);
+    return () => this.taps.delete(tap);
+  }
+
+  /** @internal */
+  _terminalSize(): { cols: number; rows: number } {
+    return this.size ?? { cols: 80, rows: 24 };
+  }
+
+  /** @internal Pause output until the returned function runs (used by SessionRecorder) */
+  _hold(): () => void {
+    this.holds++;
+    this.ws?.pause();
+    let held = true;
+    return () => {
+      if (!held) return;
+      held = false;
+      this.holds--;
+      this.resumeIfUnblocked();
+    };
+  }
+
+  private resumeIfUnblocked(): void {
+    if (this.blockedOutputs.size === 0 && this.holds === 0) this.ws?.resume();
+  }
+
+  private tapAll(event: SessionEvent, data?: Buffer | string): void {
+    for (const tap of this.taps) tap(event, data);
+  }
+}
+
+/** Resolve once `stream` has ended, including if it already has. */
+async function streamEnd(stream: Readable): Promise<void> {
+  if (stream.readableEnded) return;
+  await once(stream, 'end');
 }
@@ -0,0 +1,152 @@
+import { EventEmitter, once } from 'node:events';
+import { type AddressInfo, createServer, type Server, type Socket } from 'node:net';
+import { NoidConnectionError } from './errors.js';
+import type { VmCommand } from './exec.js';
+import { onAbort, throwIfAborted } from './internal/abort.js';
+import type { ForwardedConnection, ForwardOptions } from './types.js';
+import type { Vm } from './vm.js';
+
+/** Default host for both the local listener and the guest target. */
+const LOOPBACK = '127.0.0.1';
+
+/**
+ * Guest side of one forwarded connection: `sh -c <script> sh <host> <port>`.
+ * Uses whichever of socat, nc or bash's /dev/tcp the guest has.
+ */
+const RELAY_SCRIPT =
+  'if command -v socat >/dev/null 2>&1; then exec socat - "TCP:$1:$2"; fi; ' +
+  'if command -v nc >/dev/null 2>&1; then exec nc "$1" "$2"; fi; ' +
+  'if command -v bash >/dev/null 2>&1; then ' +
+  `exec bash -c 'exec 3<>"/dev/tcp/$0/$1" || exit 1; cat <&3 & cat >&3; wait' "$1" "$2"; fi; ` +
+  'echo "no TCP relay in guest: install socat or nc" >&2; exit 127';
+
+/**
+ * Forwards a local TCP port to a port inside a VM. Created by `vm.forward()`.
+ *
+ * Each accepted connection spawns a relay in the guest over the exec WebSocket,
+ * so the guest port needs no network route from this machine.
+ *
+ * Emits:
+ * - 'connection' (conn: ForwardedConnection) — a client connected
+ * - 'connectionClose' (conn: ForwardedConnection) — a connection finished; byte counts are final
+ * - 'connectionError' (err: Error, conn: ForwardedConnection) — a relay failed, e.g. nothing
+ *   listens on the guest port; the client connection is reset
+ * - 'error' (Error) — the local listener failed
+ */
+export class VmPortForward extends EventEmitter {
+  readonly remoteHost: string;
+  readonly remotePort: number;
+
+  private readonly vm: Vm;
+  private readonly options: ForwardOptions;
+  private readonly server: Server;
+  private readonly connections = new Map<Socket, VmCommand>();
+  private nextId = 0;
+  private closing?: Promise<void>;
+  private detachAbort: () => void = () => {};
+
+  constructor(vm: Vm, options: ForwardOptions) {
+    super();
+    this.vm = vm;
+    this.options = options;
+    this.remoteHost = options.remoteHost ?? LOOPBACK;
+    this.remotePort = options.remotePort;
+    this.server = createServer((socket) => this.relay(socket));
+  }
+
+  /** @internal Start listening; called by vm.forward() */
+  async _listen(): Promise<void> {
+    throwIfAborted(this.options.signal, 'Port forward');
+    this.server.listen(this.options.localPort ?? 0, this.options.localHost ?? LOOPBACK);
+    await once(this.server, 'listening');
+    this.server.on('error', (err) => this.emit('error', err));
+    this.detachAbort = onAbort(this.options.signal, () => void this.close());
+  }
+
+  /** Local port being listened on (useful with `localPort: 0`). */
+  get localPort(): number {
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  /** Local address being listened on. */
+  get localHost(): string {
+    return (this.server.address() as AddressInfo).address;
+  }
+
+  /** Number of open connections. */
+  get connectionCount(): number {
+    return this.connections.size;
+  }
+
+  /** Stop listening and drop open connections. */
+  close(): Promise<void> {
+    this.closing ??= new Promise<void>((resolve) => {
+      this.detachAbort();
+      this.server.close(() => resolve());
+      for (const [socket, cmd] of this.connections) {
+        cmd.kill();
+        socket.destroy();
+      }
+    });
+    return this.closing;
+  }
+
+  private relay(socket: Socket): void {
+    const conn: ForwardedConnection = {
+      id: ++this.nextId,
+      clientAddress: socket.remoteAddress,
+      clientPort: socket.remotePort,
+      bytesSent: 0,
+      bytesReceived: 0,
+    };
+    const cmd = this.vm.spawn([
+      'sh',
+      '-c',
+      RELAY_SCRIPT,
+      'sh',
+      this.remoteHost,
+      String(this.remotePort),
+    ]);
+    this.connections.set(socket, cmd);
+
+    const stderr: Buffer[] = [];
+    cmd.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+    cmd.on('error', () => {}); // Surfaces through start()/wait() below
+    socket.on('error', () => {}); // Client resets just end the connection
+    socket.pipe(cmd.stdin);
+    cmd.stdout.pipe(socket);
+
+    let clientGone = false;
+    socket.once('close', () => {
+      clientGone = true;
+      cmd.kill();
+    });
+    this.emit('connection', conn);
+
+    const target = `${this.remoteHost}:${this.remotePort}`;
+    const relayed = (async () => {
+      await cmd.start();
+      const code = await cmd.wait();
+      if (code !== 0 && !clientGone) {
+        const detail = Buffer.concat(stderr).toString('utf8').trim();
+        throw new NoidConnectionError(
+          `Relay to ${target} in VM '${this.vm.name}' exited with code ${code}${detail ? `: ${detail}` : ''}`,
+        );
+      }
+    })();
+
+    relayed
+      .catch((err: Error) => {
+        socket.destroy();
+        return err;
+      })
+      .then(async (err) => {
+        if (!socket.closed) await once(socket, 'close');
+        this.connections.delete(socket);
+        conn.bytesSent = socket.bytesRead;
+        conn.bytesReceived = socket.bytesWritten;
+        if (err && !this.closing) this.emit('connectionError', err, conn);
+        this.emit('connectionClose', conn);
+      });
+  }
+}
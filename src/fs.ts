@@ -0,0 +1,262 @@
+import { PassThrough, Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { type FilesystemErrorCode, NoidFilesystemError, NoidValidationError } from './errors.js';
+import type {
+  AbortOptions,
+  MkdirOptions,
+  ReadFileOptions,
+  RmOptions,
+  VmFileStat,
+  VmFileType,
+  WriteFileOptions,
+} from './types.js';
+import type { Vm } from './vm.js';
+
+/**
+ * Guest exit codes the scripts below use to report errno-style failures.
+ * Any other non-zero exit is reported as EIO with the guest's stderr.
+ */
+const ERRNO_EXIT_CODES: Record<number, FilesystemErrorCode> = {
+  70: 'ENOENT',
+  71: 'ENOTDIR',
+  72: 'EISDIR',
+  73: 'EACCES',
+  74: 'EEXIST',
+};
+
+// Scripts run as `sh -c <script> sh <path> [args...]`; "$1" is always the path.
+const SCRIPTS = {
+  readFile:
+    '[ -e "$1" ] || exit 70; [ -d "$1" ] && exit 72; [ -r "$1" ] || exit 73; exec cat -- "$1"',
+  writeFile:
+    '[ -d "$1" ] && exit 72; [ -d "$(dirname -- "$1")" ] || exit 70; ' +
+    'cat > "$1" || exit 73; [ -z "$2" ] || chmod -- "$2" "$1"',
+  readdir:
+    '[ -e "$1" ] || exit 70; [ -d "$1" ] || exit 71; cd -- "$1" || exit 73; ' +
+    'for f in * .[!.]* ..?*; do if [ -e "$f" ] || [ -L "$f" ]; then printf "%s\\0" "$f"; fi; done',
+  stat: '[ -e "$1" ] || exit 70; exec stat -L -c "%f %s %u %g %X %Y %Z" -- "$1"',
+  lstat: '[ -e "$1" ] || [ -L "$1" ] || exit 70; exec stat -c "%f %s %u %g %X %Y %Z" -- "$1"',
+  mkdir:
+    'if [ "$2" = -p ]; then [ -e "$1" ] && [ ! -d "$1" ] && exit 74; ' +
+    'else [ -e "$1" ] && exit 74; [ -d "$(dirname -- "$1")" ] || exit 70; fi; ' +
+    'if [ -n "$3" ]; then exec mkdir $2 -m "$3" -- "$1"; fi; exec mkdir $2 -- "$1"',
+  rm:
+    'if [ ! -e "$1" ] && [ ! -L "$1" ]; then [ "$2" = f ] && exit 0; exit 70; fi; ' +
+    'if [ -d "$1" ] && [ ! -L "$1" ]; then [ "$3" = r ] || exit 72; exec rm -rf -- "$1"; fi; ' +
+    'exec rm -f -- "$1"',
+  chmod: '[ -e "$1" ] || exit 70; exec chmod -- "$2" "$1"',
+  exists: '[ -e "$1" ] || [ -L "$1" ]',
+} as const;
+
+/** File type bits of st_mode (S_IFMT) */
+const S_IFMT = 0o170000;
+const S_IFREG = 0o100000;
+const S_IFDIR = 0o040000;
+const S_IFLNK = 0o120000;
+
+const SYMBOLIC_MODE_REGEX = /^[ugoa]*[-+=][rwxXst]*(,[ugoa]*[-+=][rwxXst]*)*$/;
+
+/**
+ * Filesystem access inside a VM, available as `vm.fs`.
+ *
+ * noid has no filesystem endpoint, so each call runs a small POSIX `sh` script
+ * through a streaming command. Content travels as binary WebSocket frames: it is
+ * binary-safe and not subject to `max_exec_output_bytes`.
+ * Failures reject with NoidFilesystemError carrying the path and an errno-style code.
+ */
+export class VmFilesystem {
+  private readonly vm: Vm;
+
+  constructor(vm: Vm) {
+    this.vm = vm;
+  }
+
+  /** Read a whole file. Returns a Buffer, or a string when `encoding` is given. */
+  readFile(path: string, options: ReadFileOptions & { encoding: BufferEncoding }): Promise<string>;
+  readFile(path: string, options?: ReadFileOptions): Promise<Buffer>;
+  async readFile(path: string, options?: ReadFileOptions): Promise<Buffer | string> {
+    const data = await this.run('readFile', path, [], options);
+    return options?.encoding ? data.toString(options.encoding) : data;
+  }
+
+  /**
+   * Stream a file's contents. The stream errors with NoidFilesystemError
+   * if the file cannot be read. Destroying it early kills the remote read.
+   */
+  createReadStream(path: string, options?: AbortOptions): Readable {
+    validatePath(path);
+    const out = new PassThrough();
+    const cmd = this.vm.spawn(scriptCommand(SCRIPTS.readFile, path, []), {
+      signal: options?.signal,
+    });
+    const stderr: Buffer[] = [];
+    cmd.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+    cmd.stdout.pipe(out, { end: false });
+    cmd.stdin.end();
+    // Also fires after errors; kill() is a no-op once the command has exited
+    out.once('close', () => cmd.kill());
+
+    (async () => {
+      await cmd.start();
+      const code = await cmd.wait();
+      if (code !== 0) throw fsError('readFile', path, code, Buffer.concat(stderr));
+      if (!cmd.stdout.readableEnded) await new Promise((r) => cmd.stdout.once('end', r));
+      out.end();
+    })().catch((err: Error) => out.destroy(err));
+
+    return out;
+  }
+
+  /** Write a file from a string, Buffer or Readable, replacing existing content. */
+  async writeFile(
+    path: string,
+    data: string | Uint8Array | Readable,
+    options?: WriteFileOptions,
+  ): Promise<void> {
+    const mode = options?.mode !== undefined ? formatMode(options.mode) : '';
+    await this.run('writeFile', path, [mode], options, data);
+  }
+
+  /** List entry names in a directory (excluding `.` and `..`), sorted. */
+  async readdir(path: string, options?: AbortOptions): Promise<string[]> {
+    const data = await this.run('readdir', path, [], options);
+    return data
+      .toString('utf8')
+      .split('\0')
+      .filter((name) => name.length > 0)
+      .sort();
+  }
+
+  /** Stat a path, following symlinks. */
+  async stat(path: string, options?: AbortOptions): Promise<VmFileStat> {
+    return parseStat(await this.run('stat', path, [], options));
+  }
+
+  /** Stat a path without following a final symlink. */
+  async lstat(path: string, options?: AbortOptions): Promise<VmFileStat> {
+    return parseStat(await this.run('lstat', path, [], options));
+  }
+
+  /** Create a directory; `recursive` behaves like `mkdir -p`. */
+  async mkdir(path: string, options?: MkdirOptions): Promise<void> {
+    const mode = options?.mode !== undefined ? formatMode(options.mode) : '';
+    await this.run('mkdir', path, [options?.recursive ? '-p' : '', mode], options);
+  }
+
+  /** Remove a file, symlink or (with `recursive`) directory tree. */
+  async rm(path: string, options?: RmOptions): Promise<void> {
+    await this.run('rm', path, [options?.force ? 'f' : '', options?.recursive ? 'r' : ''], options);
+  }
+
+  /** Change permissions, as octal bits (0o755) or a symbolic mode ('u+x'). */
+  async chmod(path: string, mode: number | string, options?: AbortOptions): Promise<void> {
+    await this.run('chmod', path, [formatMode(mode)], options);
+  }
+
+  /** Whether a path exists (a dangling symlink counts as existing). */
+  async exists(path: string, options?: AbortOptions): Promise<boolean> {
+    validatePath(path);
+    const cmd = this.vm.spawn(scriptCommand(SCRIPTS.exists, path, []), {
+      signal: options?.signal,
+    });
+    cmd.stdin.end();
+    const { exitCode, stderr } = await cmd.output();
+    if (exitCode === 0) return true;
+    if (exitCode === 1) return false;
+    throw fsError('exists', path, exitCode, stderr);
+  }
+
+  /** Run one of SCRIPTS, feeding `input` to stdin, and return stdout. */
+  private async run(
+    operation: keyof typeof SCRIPTS,
+    path: string,
+    args: string[],
+    options?: AbortOptions,
+    input?: string | Uint8Array | Readable,
+  ): Promise<Buffer> {
+    validatePath(path);
+    const cmd = this.vm.spawn(scriptCommand(SCRIPTS[operation], path, args), {
+      signal: options?.signal,
+    });
+
+    let feeding: Promise<void> | undefined;
+    if (input instanceof Readable) {
+      feeding = pipeline(input, cmd.stdin).catch((err: Error) => {
+        cmd.kill();
+        throw err;
+      });
+    } else {
+      cmd.stdin.end(input);
+    }
+
+    const [{ exitCode, stdout, stderr }] = await Promise.all([cmd.output(), feeding]);
+    if (exitCode !== 0) {
+      throw fsError(operation, path, exitCode, stderr);
+    }
+    return stdout;
+  }
+}
+
+export function scriptCommand(script: string, path: string, args: string[]): string[] {
+  return ['sh', '-c', script, 'sh', path, ...args];
+}
+
+export function fsError(operation: string, path: string, exitCode: number, stderr: Buffer) {
+  return new NoidFilesystemError(
+    operation,
+    path,
+    ERRNO_EXIT_CODES[exitCode] ?? 'EIO',
+    stderr.toString('utf8'),
+  );
+}
+
+export function validatePath(path: string): void {
+  if (typeof path !== 'string' || path.length === 0) {
+    throw new NoidValidationError('path', 'Path cannot be empty');
+  }
+  if (path.includes('\0')) {
+    throw new NoidValidationError('path', 'Path cannot contain NUL bytes');
+  }
+}
+
+function formatMode(mode: number | string): string {
+  if (typeof mode === 'number') {
+    if (!Number.isInteger(mode) || mode < 0 || mode > 0o7777) {
+      throw new NoidValidationError('mode', 'Numeric mode must be between 0 and 0o7777');
+    }
+    return mode.toString(8).padStart(3, '0');
+  }
+  if (!/^[0-7]{3,4}$/.test(mode) && !SYMBOLIC_MODE_REGEX.test(mode)) {
+    throw new NoidValidationError('mode', `Invalid mode '${mode}'`);
+  }
+  return mode;
+}
+
+/** Parse `stat -c "%f %s %u %g %X %Y %Z"` output. */
+function parseStat(data: Buffer): VmFileStat {
+  const [rawMode, size, uid, gid, atime, mtime, ctime] = data.toString('utf8').trim().split(' ');
+  const mode = Number.parseInt(rawMode, 16);
+  return {
+    type: fileType(mode),
+    mode: mode & 0o7777,
+    size: Number(size),
+    uid: Number(uid),
+    gid: Number(gid),
+    atime: new Date(Number(atime) * 1000),
+    mtime: new Date(Number(mtime) * 1000),
+    ctime: new Date(Number(ctime) * 1000),
+  };
+}
+
+function fileType(mode: number): VmFileType {
+  switch (mode & S_IFMT) {
+    case S_IFREG:
+      return 'file';
+    case S_IFDIR:
+      return 'directory';
+    case S_IFLNK:
+      return 'symlink';
+    default:
+      return 'other';
+  }
+}
@@ -1,32 +1,91 @@
 // Classes
 export { NoidClient } from './client.js';
+export { loadConfig } from './config.js';
 export { VmConsole } from './console.js';
 // Constants
 export { API_VERSION, StreamID } from './constants.js';
+export type { ExecErrorContext, FilesystemErrorCode } from './errors.js';
 // Errors
 export {
+  NoidAbortError,
   NoidAPIError,
   NoidConnectionError,
   NoidError,
   NoidExecError,
+  NoidFilesystemError,
+  NoidTimeoutError,
   NoidValidationError,
 } from './errors.js';
 export { VmCommand } from './exec.js';
+export { VmPortForward } from './forward.js';
+export { VmFilesystem } from './fs.js';
+export { playRecording, SessionRecorder } from './recording.js';
+export { quoteShellArg, type RawShell, rawShell, type ShellValue } from './shell.js';
+export { VmSyncWatcher } from './sync.js';
 // Types
 export type {
+  AbortOptions,
+  AttachOptions,
+  AttachResult,
   Capabilities,
   CheckpointInfo,
+  CheckpointRef,
+  CommandEvent,
+  CommandOutput,
+  CommandSignal,
+  ConnectionCloseInfo,
+  ConsoleOpenInfo,
   ConsoleOptions,
   CreateCheckpointOptions,
   CreateVmOptions,
   EnvVars,
+  EphemeralVmOptions,
   ExecOptions,
   ExecResult,
+  ExitStatus,
+  ExpectMatch,
+  ExpectOptions,
+  ExpectPattern,
+  ForkOptions,
+  ForwardedConnection,
+  ForwardOptions,
+  MkdirOptions,
   NoidClientOptions,
+  NoidConfigOptions,
+  NoidHttpNext,
+  NoidHttpRequest,
+  NoidHttpResponse,
+  NoidMiddleware,
+  NoidWebSocketRequest,
+  PlayOptions,
+  PruneCheckpointsOptions,
+  PruneCheckpointsResult,
+  ReadFileOptions,
+  RecordOptions,
   RestoreOptions,
+  RetryOptions,
+  RmOptions,
+  RunOptions,
+  RunResult,
+  ShellOptions,
+  ShellRunOptions,
+  ShellSpawnOptions,
   SpawnOptions,
+  SyncOptions,
+  SyncResult,
+  TransferOptions,
+  TransferProgress,
+  TransferResult,
   VersionInfo,
+  VmActionOptions,
+  VmFileStat,
+  VmFileType,
   VmInfo,
+  VmState,
+  WaitForStateOptions,
+  WaitUntilReadyOptions,
+  WatchSyncOptions,
   WhoamiResponse,
+  WriteFileOptions,
 } from './types.js';
 export { Vm } from './vm.js';
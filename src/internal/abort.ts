@@ -0,0 +1,80 @@
+import { NoidAbortError } from '../errors.js';
+
+/** Build the error an operation rejects with when `signal` fires. */
+export function abortError(signal: AbortSignal, what = 'Operation'): NoidAbortError {
+  return new NoidAbortError(`${what} aborted`, signal.reason);
+}
+
+export function throwIfAborted(signal: AbortSignal | undefined, what?: string): void {
+  if (signal?.aborted) throw abortError(signal, what);
+}
+
+/**
+ * Combine signals into one that aborts when any input aborts.
+ * `dispose()` detaches the listeners once the combined signal is no longer needed;
+ * AbortSignal.any() has no such hook, so a long-lived input such as a session
+ * signal would keep every per-call signal combined with it alive until GC.
+ */
+export function combineSignals(...signals: (AbortSignal | undefined)[]): {
+  signal?: AbortSignal;
+  dispose: () => void;
+} {
+  const inputs = signals.filter((s): s is AbortSignal => s !== undefined);
+  if (inputs.length <= 1) {
+    return { signal: inputs[0], dispose: () => {} };
+  }
+
+  const controller = new AbortController();
+  const listeners: [AbortSignal, () => void][] = [];
+  const dispose = () => {
+    for (const [s, fn] of listeners) s.removeEventListener('abort', fn);
+  };
+
+  for (const s of inputs) {
+    if (s.aborted) {
+      controller.abort(s.reason);
+      dispose();
+      return { signal: controller.signal, dispose };
+    }
+    const fn = () => {
+      controller.abort(s.reason);
+      dispose();
+    };
+    s.addEventListener('abort', fn, { once: true });
+    listeners.push([s, fn]);
+  }
+
+  return { signal: controller.signal, dispose };
+}
+
+/**
+ * Run `onAbort` when `signal` fires. Returns a function that detaches the listener.
+ * Calls `onAbort` synchronously if the signal is already aborted.
+ */
+export function onAbort(signal: AbortSignal | undefined, onAbort: () => void): () => void {
+  if (!signal) return () => {};
+  if (signal.aborted) {
+    onAbort();
+    return () => {};
+  }
+  signal.addEventListener('abort', onAbort, { once: true });
+  return () => signal.removeEventListener('abort', onAbort);
+}
+
+/** setTimeout as a promise, rejecting with NoidAbortError if `signal` fires first. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+    const timer = setTimeout(() => {
+      detach();
+      resolve();
+    }, ms);
+    const detach = onAbort(signal, () => {
+      clearTimeout(timer);
+      reject(abortError(signal as AbortSignal));
+    });
+  });
+}
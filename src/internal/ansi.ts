@@ -0,0 +1,74 @@
+const ESC = 0x1b;
+const BEL = 0x07;
+const BACKSLASH = 0x5c;
+
+type State = 'text' | 'escape' | 'intermediate' | 'csi' | 'string' | 'stringEscape';
+
+/**
+ * Removes terminal escape sequences (CSI, OSC, DCS and short escapes such as
+ * `ESC (B`) from text that arrives in chunks. A sequence split across chunks is
+ * tracked until it completes, so no fragments leak into the output.
+ */
+export class AnsiStripper {
+  private state: State = 'text';
+
+  push(text: string): string {
+    let out = '';
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+      const c = text.charCodeAt(i);
+      switch (this.state) {
+        case 'text':
+          if (c === ESC) {
+            out += text.slice(start, i);
+            this.state = 'escape';
+          }
+          break;
+        case 'escape':
+          if (c === 0x5b) {
+            this.state = 'csi'; // ESC [
+          } else if (c === 0x5d || c === 0x50 || c === 0x58 || c === 0x5e || c === 0x5f) {
+            this.state = 'string'; // OSC, DCS, SOS, PM, APC
+          } else if (c >= 0x20 && c <= 0x2f) {
+            this.state = 'intermediate';
+          } else if (c !== ESC) {
+            this.state = 'text';
+            start = i + 1;
+          }
+          break;
+        case 'intermediate':
+          if (c < 0x20 || c > 0x2f) {
+            this.state = 'text';
+            start = i + 1;
+          }
+          break;
+        case 'csi':
+          if (c >= 0x40 && c <= 0x7e) {
+            this.state = 'text';
+            start = i + 1;
+          }
+          break;
+        case 'string':
+          if (c === BEL) {
+            this.state = 'text';
+            start = i + 1;
+          } else if (c === ESC) {
+            this.state = 'stringEscape';
+          }
+          break;
+        case 'stringEscape':
+          if (c === BACKSLASH) {
+            this.state = 'text';
+            start = i + 1;
+          } else {
+            // Unterminated string cut short by a new escape sequence
+            this.state = 'escape';
+            i--;
+          }
+          break;
+      }
+    }
+    if (this.state === 'text') out += text.slice(start);
+    return out;
+  }
+}
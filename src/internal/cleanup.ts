@@ -0,0 +1,56 @@
+type Cleanup = () => Promise<void>;
+
+const SIGNALS = ['SIGINT', 'SIGTERM'] as const;
+
+const cleanups = new Set<Cleanup>();
+let running: Promise<void> | undefined;
+let installed = false;
+
+/**
+ * Run `cleanup` on SIGINT, SIGTERM or `beforeExit`. Process handlers are installed
+ * while at least one cleanup is registered. After a signal, the signal is raised
+ * again once cleanups finish so the process still exits, unless the application
+ * handles it; a second signal skips the wait. Returns a function that unregisters.
+ */
+export function registerCleanup(cleanup: Cleanup): () => void {
+  cleanups.add(cleanup);
+  install();
+  return () => {
+    if (cleanups.delete(cleanup) && cleanups.size === 0) uninstall();
+  };
+}
+
+function runCleanups(): Promise<void> {
+  running ??= Promise.allSettled([...cleanups].map((cleanup) => cleanup())).then(() => {
+    running = undefined;
+  });
+  return running;
+}
+
+function onSignal(signal: NodeJS.Signals): void {
+  const reraise = () => {
+    uninstall();
+    if (process.listenerCount(signal) === 0) process.kill(process.pid, signal);
+  };
+  if (running) reraise();
+  else void runCleanups().then(reraise);
+}
+
+function onBeforeExit(): void {
+  // Once only: a cleanup that keeps failing would otherwise re-arm beforeExit forever
+  void runCleanups().then(uninstall);
+}
+
+function install(): void {
+  if (installed) return;
+  installed = true;
+  for (const signal of SIGNALS) process.on(signal, onSignal);
+  process.on('beforeExit', onBeforeExit);
+}
+
+function uninstall(): void {
+  if (!installed) return;
+  installed = false;
+  for (const signal of SIGNALS) process.removeListener(signal, onSignal);
+  process.removeListener('beforeExit', onBeforeExit);
+}
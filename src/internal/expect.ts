@@ -0,0 +1,171 @@
+import { StringDecoder } from 'node:string_decoder';
+import { NoidTimeoutError } from '../errors.js';
+import type { ExpectMatch, ExpectOptions, ExpectPattern } from '../types.js';
+import { abortError, onAbort, throwIfAborted } from './abort.js';
+import { AnsiStripper } from './ansi.js';
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+/** Characters of recent output quoted in timeout errors. */
+const ERROR_TAIL_CHARS = 200;
+
+interface Waiter {
+  patterns: readonly ExpectPattern[];
+  resolve: (match: ExpectMatch) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * Rolling buffer of terminal output with escape sequences removed, matched
+ * against waiting patterns as data arrives. A match consumes the buffer up to
+ * its end, so consecutive waits see consecutive output.
+ */
+export class ExpectBuffer {
+  private readonly limit: number;
+  private readonly waiters: Waiter[] = [];
+  private decoder = new StringDecoder('utf8');
+  private stripper = new AnsiStripper();
+  private text = '';
+  private endError?: Error;
+
+  constructor(limit: number) {
+    this.limit = limit;
+  }
+
+  /** Unmatched output, oldest first. */
+  get contents(): string {
+    return this.text;
+  }
+
+  push(chunk: Buffer): void {
+    const text = this.stripper.push(this.decoder.write(chunk));
+    if (!text) return;
+    this.text += text;
+    if (this.text.length > this.limit) {
+      this.text = this.text.slice(-this.limit);
+    }
+    this.settle();
+  }
+
+  clear(): void {
+    this.text = '';
+  }
+
+  /** Accept output again after end(), e.g. for a new session. */
+  reset(): void {
+    this.endError = undefined;
+    this.decoder = new StringDecoder('utf8');
+    this.stripper = new AnsiStripper();
+  }
+
+  /** No more output will arrive: fail pending and later waits with `err`. */
+  end(err: Error): void {
+    this.endError = err;
+    for (const waiter of this.waiters.splice(0)) waiter.reject(err);
+  }
+
+  wait(
+    patterns: readonly ExpectPattern[],
+    options: ExpectOptions | undefined,
+    what: string,
+  ): Promise<ExpectMatch> {
+    throwIfAborted(options?.signal, what);
+    const found = this.search(patterns);
+    if (found) return Promise.resolve(found);
+    if (this.endError) return Promise.reject(this.endError);
+
+    const timeoutMs = options?.timeout ?? DEFAULT_TIMEOUT_MS;
+    return new Promise<ExpectMatch>((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        detachAbort();
+        const i = this.waiters.indexOf(waiter);
+        if (i >= 0) this.waiters.splice(i, 1);
+      };
+      const waiter: Waiter = {
+        patterns,
+        resolve: (match) => {
+          cleanup();
+          resolve(match);
+        },
+        reject: (err) => {
+          cleanup();
+          reject(err);
+        },
+      };
+      const timer =
+        timeoutMs > 0
+          ? setTimeout(() => {
+              const tail = this.text.slice(-ERROR_TAIL_CHARS);
+              waiter.reject(
+                new NoidTimeoutError(
+                  `${what} timed out after ${timeoutMs}ms waiting for ${describe(patterns)}; ` +
+                    `last output: ${JSON.stringify(tail)}`,
+                  timeoutMs,
+                ),
+              );
+            }, timeoutMs)
+          : undefined;
+      const detachAbort = onAbort(options?.signal, () =>
+        waiter.reject(abortError(options?.signal as AbortSignal, what)),
+      );
+      this.waiters.push(waiter);
+    });
+  }
+
+  /** Hand buffered output to waiters, oldest waiter first, until none matches. */
+  private settle(): void {
+    let progressed = true;
+    while (progressed && this.waiters.length > 0) {
+      progressed = false;
+      for (const waiter of this.waiters) {
+        const found = this.search(waiter.patterns);
+        if (found) {
+          waiter.resolve(found);
+          progressed = true;
+          break;
+        }
+      }
+    }
+  }
+
+  /** Earliest match of any pattern (ties go to the first pattern); consumes it. */
+  private search(patterns: readonly ExpectPattern[]): ExpectMatch | undefined {
+    let best: { index: number; start: number; end: number; exec?: RegExpExecArray } | undefined;
+    patterns.forEach((pattern, index) => {
+      if (typeof pattern === 'string') {
+        const start = this.text.indexOf(pattern);
+        if (start >= 0 && (!best || start < best.start)) {
+          best = { index, start, end: start + pattern.length };
+        }
+        return;
+      }
+      // Without g/y, exec() ignores lastIndex and searches from the start
+      const exec = withoutState(pattern).exec(this.text);
+      if (exec && (!best || exec.index < best.start)) {
+        best = { index, start: exec.index, end: exec.index + exec[0].length, exec };
+      }
+    });
+    if (!best) return undefined;
+
+    const match: ExpectMatch = {
+      index: best.index,
+      match: this.text.slice(best.start, best.end),
+      groups: best.exec ? best.exec.slice(1) : [],
+      namedGroups: { ...best.exec?.groups },
+      before: this.text.slice(0, best.start),
+    };
+    this.text = this.text.slice(best.end);
+    return match;
+  }
+}
+
+/** `pattern` without the g and y flags, whose `lastIndex` would carry over between matches. */
+export function withoutState(pattern: RegExp): RegExp {
+  return pattern.global || pattern.sticky
+    ? new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''))
+    : pattern;
+}
+
+function describe(patterns: readonly ExpectPattern[]): string {
+  return patterns.map((p) => (typeof p === 'string' ? JSON.stringify(p) : String(p))).join(' or ');
+}
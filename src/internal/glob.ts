@@ -0,0 +1,54 @@
+/**
+ * Glob matching for transfer include/exclude filters.
+ *
+ * `*` matches within one path segment, `**` across segments, `?` one character,
+ * and `[...]` a character class. A pattern without '/' matches an entry's name at
+ * any depth (like .gitignore); one with '/' matches the whole relative path.
+ */
+
+export type PathMatcher = (path: string) => boolean;
+
+export function compileGlobs(patterns: readonly string[]): PathMatcher {
+  const regexes = patterns.map(globToRegExp);
+  return (path) => {
+    const name = path.slice(path.lastIndexOf('/') + 1);
+    return regexes.some(({ regex, anchored }) => regex.test(anchored ? path : name));
+  };
+}
+
+function globToRegExp(pattern: string): { regex: RegExp; anchored: boolean } {
+  const trimmed = pattern.replace(/^\.\//, '').replace(/\/+$/, '');
+  const anchored = trimmed.includes('/');
+  const body = anchored ? trimmed.replace(/^\//, '') : trimmed;
+
+  let source = '';
+  for (let i = 0; i < body.length; i++) {
+    const c = body[i];
+    if (c === '*') {
+      if (body[i + 1] === '*') {
+        const slash = body[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (c === '?') {
+      source += '[^/]';
+    } else if (c === '[') {
+      const end = body.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const cls = body
+          .slice(i + 1, end)
+          .replace(/^!/, '^')
+          .replace(/\\/g, '\\\\');
+        source += `[${cls}]`;
+        i = end;
+      }
+    } else {
+      source += c.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return { regex: new RegExp(`^${source}$`), anchored };
+}
@@ -1,4 +1,6 @@
 import { NoidAPIError, NoidConnectionError } from '../errors.js';
+import type { NoidHttpNext, NoidHttpRequest, NoidHttpResponse, NoidMiddleware } from '../types.js';
+import { abortError, combineSignals, sleep, throwIfAborted } from './abort.js';
 
 export interface RequestOptions {
   method: 'GET' | 'POST' | 'PUT' | 'DELETE';
@@ -6,10 +8,97 @@ export interface RequestOptions {
   body?: unknown;
   token?: string;
   timeout?: number;
+  /** Caller cancellation, combined with `timeout` */
+  signal?: AbortSignal;
+  /** Retry policy; a single attempt is made when omitted */
+  retry?: RetryPolicy;
+  /** Middleware wrapping each attempt */
+  middleware?: readonly NoidMiddleware[];
 }
 
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: boolean;
+}
+
+/** Statuses worth retrying: rate limiting and transient server/gateway failures. */
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+/** Statuses whose `Retry-After` header is honored. */
+const RETRY_AFTER_STATUSES = new Set([429, 503]);
+
 export async function request<T>(baseUrl: string, options: RequestOptions): Promise<T> {
-  const url = `${baseUrl}${options.path}`;
+  const maxAttempts = options.retry?.maxAttempts ?? 1;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await requestOnce<T>(baseUrl, options, attempt);
+    } catch (err) {
+      const policy = options.retry;
+      if (!policy || attempt >= maxAttempts || !isRetryable(err)) throw err;
+
+      // A Retry-After beyond maxDelayMs is capped rather than abandoning the request
+      const retryAfter = err instanceof RetryableStatusError ? err.retryAfterMs : undefined;
+      const delay =
+        retryAfter !== undefined
+          ? Math.min(retryAfter, policy.maxDelayMs)
+          : backoffDelay(policy, attempt);
+      await sleep(delay, options.signal);
+    }
+  }
+}
+
+/**
+ * Backoff before retry number `attempt` (1-based): base * 2^(attempt-1),
+ * capped at maxDelayMs, with optional full jitter.
+ */
+export function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const exp = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return policy.jitter ? Math.random() * exp : exp;
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP-date) into milliseconds.
+ * Returns undefined when absent or unparseable.
+ */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | undefined {
+  if (!header) return undefined;
+  const trimmed = header.trim();
+
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+function isRetryable(err: unknown): boolean {
+  return err instanceof NoidConnectionError || err instanceof RetryableStatusError;
+}
+
+/**
+ * NoidAPIError for a retryable status, carrying the server's `Retry-After` hint.
+ * Callers only ever see it as a NoidAPIError.
+ */
+class RetryableStatusError extends NoidAPIError {
+  readonly retryAfterMs?: number;
+
+  constructor(statusCode: number, errorMessage: string, retryAfterMs?: number) {
+    super(statusCode, errorMessage);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+async function requestOnce<T>(
+  baseUrl: string,
+  options: RequestOptions,
+  attempt: number,
+): Promise<T> {
+  throwIfAborted(options.signal, 'Request');
 
   const headers: Record<string, string> = {
     Accept: 'application/json',
@@ -23,22 +112,17 @@ export async function request<T>(baseUrl: string, options: RequestOptions): Prom
     headers['Content-Type'] = 'application/json';
   }
 
-  let response: Response;
-  try {
-    response = await fetch(url, {
-      method: options.method,
-      headers,
-      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
-      signal: options.timeout ? AbortSignal.timeout(options.timeout) : undefined,
-    });
-  } catch (err) {
-    if (err instanceof DOMException && err.name === 'TimeoutError') {
-      throw new NoidConnectionError(`Request timed out after ${options.timeout}ms`, {
-        cause: err as Error,
-      });
-    }
-    throw new NoidConnectionError(`Failed to connect to ${baseUrl}`, { cause: err as Error });
-  }
+  const req: NoidHttpRequest = {
+    method: options.method,
+    url: `${baseUrl}${options.path}`,
+    headers,
+    body: options.body,
+    attempt,
+    signal: options.signal,
+  };
+
+  const send: NoidHttpNext = (r) => sendRequest(baseUrl, r, options.timeout);
+  const response = await runChain(options.middleware ?? [], req, send);
 
   // 204 No Content
   if (response.status === 204) {
@@ -46,7 +130,7 @@ export async function request<T>(baseUrl: string, options: RequestOptions): Prom
   }
 
   // Parse response body
-  const text = await response.text();
+  const text = response.text;
   let body: unknown;
   try {
     body = text ? JSON.parse(text) : undefined;
@@ -58,8 +142,67 @@ export async function request<T>(baseUrl: string, options: RequestOptions): Prom
   if (response.status >= 400) {
     const errBody = body as Record<string, unknown> | undefined;
     const errorMessage = errBody?.error ?? errBody?.message ?? (text || `HTTP ${response.status}`);
+    if (RETRYABLE_STATUSES.has(response.status)) {
+      const retryAfter = RETRY_AFTER_STATUSES.has(response.status)
+        ? parseRetryAfter(response.headers.get('Retry-After'))
+        : undefined;
+      throw new RetryableStatusError(response.status, String(errorMessage), retryAfter);
+    }
     throw new NoidAPIError(response.status, String(errorMessage));
   }
 
   return body as T;
 }
+
+/** Run `req` through the middleware chain, outermost first, ending in `send`. */
+function runChain(
+  middleware: readonly NoidMiddleware[],
+  req: NoidHttpRequest,
+  send: NoidHttpNext,
+): Promise<NoidHttpResponse> {
+  const dispatch = (index: number, r: NoidHttpRequest): Promise<NoidHttpResponse> => {
+    for (let i = index; i < middleware.length; i++) {
+      const mw = middleware[i];
+      if (mw.request) {
+        return mw.request.call(mw, r, (next) => dispatch(i + 1, next));
+      }
+    }
+    return send(r);
+  };
+  return dispatch(0, req);
+}
+
+/** The end of the chain: perform the fetch and read the body. */
+async function sendRequest(
+  baseUrl: string,
+  req: NoidHttpRequest,
+  timeout?: number,
+): Promise<NoidHttpResponse> {
+  throwIfAborted(req.signal, 'Request');
+
+  const timeoutSignal = timeout ? AbortSignal.timeout(timeout) : undefined;
+  const combined = combineSignals(req.signal, timeoutSignal);
+
+  try {
+    const response = await fetch(req.url, {
+      method: req.method,
+      headers: req.headers,
+      body: req.body !== undefined ? JSON.stringify(req.body) : undefined,
+      signal: combined.signal,
+    });
+    const text = response.status === 204 ? '' : await response.text();
+    return { status: response.status, headers: response.headers, text };
+  } catch (err) {
+    if (req.signal?.aborted) {
+      throw abortError(req.signal, 'Request');
+    }
+    if (timeoutSignal?.aborted) {
+      throw new NoidConnectionError(`Request timed out after ${timeout}ms`, {
+        cause: err as Error,
+      });
+    }
+    throw new NoidConnectionError(`Failed to connect to ${baseUrl}`, { cause: err as Error });
+  } finally {
+    combined.dispose();
+  }
+}
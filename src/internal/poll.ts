@@ -0,0 +1,48 @@
+import { NoidTimeoutError, NoidValidationError } from '../errors.js';
+import { combineSignals, sleep } from './abort.js';
+
+export interface PollOptions {
+  timeoutMs: number;
+  intervalMs: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Call `attempt` every `intervalMs` until it returns something other than undefined.
+ * Each attempt gets a signal that also fires at the deadline; once `timeoutMs` has
+ * passed, rejects with NoidTimeoutError using `describe()` as the message.
+ */
+export async function poll<T>(
+  attempt: (signal: AbortSignal) => Promise<T | undefined>,
+  options: PollOptions,
+  describe: () => string,
+): Promise<T> {
+  const { timeoutMs, intervalMs } = options;
+  if (!(timeoutMs >= 0)) {
+    throw new NoidValidationError('timeout', 'Must be a non-negative number');
+  }
+  if (!(intervalMs > 0)) {
+    throw new NoidValidationError('pollInterval', 'Must be a positive number');
+  }
+
+  const deadline = new AbortController();
+  const timer = setTimeout(() => deadline.abort(), timeoutMs);
+  const combined = combineSignals(options.signal, deadline.signal);
+  const signal = combined.signal as AbortSignal;
+  try {
+    while (!deadline.signal.aborted) {
+      try {
+        const result = await attempt(signal);
+        if (result !== undefined) return result;
+        await sleep(intervalMs, signal);
+      } catch (err) {
+        // Interrupted by the deadline rather than failing
+        if (!deadline.signal.aborted) throw err;
+      }
+    }
+    throw new NoidTimeoutError(describe(), timeoutMs);
+  } finally {
+    clearTimeout(timer);
+    combined.dispose();
+  }
+}
@@ -0,0 +1,27 @@
+/** The most recent `limit` bytes of a byte stream, kept as the chunks that arrived. */
+export class Scrollback {
+  private readonly limit: number;
+  private chunks: Buffer[] = [];
+  private size = 0;
+
+  constructor(limit: number) {
+    this.limit = limit;
+  }
+
+  push(data: Buffer): void {
+    if (this.limit <= 0 || data.length === 0) return;
+    this.chunks.push(data);
+    this.size += data.length;
+    while (this.size - this.chunks[0].length >= this.limit) {
+      this.size -= (this.chunks.shift() as Buffer).length;
+    }
+    if (this.size > this.limit) {
+      this.chunks[0] = this.chunks[0].subarray(this.size - this.limit);
+      this.size = this.limit;
+    }
+  }
+
+  contents(): Buffer {
+    return Buffer.concat(this.chunks, this.size);
+  }
+}
@@ -0,0 +1,375 @@
+/**
+ * Minimal streaming tar support for vm.upload() / vm.download().
+ *
+ * Writes POSIX ustar, with PAX extended headers for long paths and link
+ * targets. Reads ustar, PAX and GNU long-name archives as produced by GNU and
+ * busybox tar. Only regular files, directories and symlinks are surfaced;
+ * other entry types (hard links, devices, FIFOs) are reported as 'other'.
+ */
+
+const BLOCK = 512;
+const END_OF_ARCHIVE = Buffer.alloc(BLOCK * 2);
+/** Largest PAX or GNU long-name body read into memory; real ones are a few KiB at most. */
+const MAX_EXTENSION_SIZE = 1024 * 1024;
+
+export type TarEntryType = 'file' | 'directory' | 'symlink' | 'other';
+
+export interface TarHeader {
+  /** Relative path, '/'-separated, without a trailing slash */
+  path: string;
+  type: TarEntryType;
+  mode: number;
+  size: number;
+  mtime: Date;
+  /** Symlink target */
+  linkname?: string;
+}
+
+// ─── Writing ───
+
+/** Encode the header block(s) for one entry, including any PAX prefix. */
+export function encodeHeader(header: TarHeader): Buffer {
+  const name = header.type === 'directory' ? `${header.path}/` : header.path;
+  const linkname = header.linkname ?? '';
+  const pax: Record<string, string> = {};
+
+  const split = splitUstarName(name);
+  if (!split) pax.path = name;
+  if (Buffer.byteLength(linkname) > 100) pax.linkpath = linkname;
+
+  const blocks: Buffer[] = [];
+  if (Object.keys(pax).length > 0) {
+    const body = encodePax(pax);
+    blocks.push(
+      ustarBlock({
+        name: truncateUtf8(`PaxHeaders/${name}`, 100),
+        prefix: '',
+        mode: 0o644,
+        size: body.length,
+        mtime: header.mtime,
+        typeflag: 'x',
+        linkname: '',
+      }),
+      body,
+      padding(body.length),
+    );
+  }
+
+  blocks.push(
+    ustarBlock({
+      name: split ? split.name : truncateUtf8(name, 100),
+      prefix: split ? split.prefix : '',
+      mode: header.mode,
+      size: header.type === 'file' ? header.size : 0,
+      mtime: header.mtime,
+      typeflag: typeflagFor(header.type),
+      linkname: truncateUtf8(linkname, 100),
+    }),
+  );
+  return Buffer.concat(blocks);
+}
+
+/** Zero padding that rounds `size` up to a whole block. */
+export function padding(size: number): Buffer {
+  const rem = size % BLOCK;
+  return rem === 0 ? Buffer.alloc(0) : Buffer.alloc(BLOCK - rem);
+}
+
+/** The two zero blocks that terminate an archive. */
+export function endOfArchive(): Buffer {
+  return END_OF_ARCHIVE;
+}
+
+interface UstarFields {
+  name: string;
+  prefix: string;
+  mode: number;
+  size: number;
+  mtime: Date;
+  typeflag: string;
+  linkname: string;
+}
+
+function ustarBlock(f: UstarFields): Buffer {
+  const block = Buffer.alloc(BLOCK);
+  block.write(f.name, 0, 100, 'utf8');
+  writeOctal(block, 100, 8, f.mode & 0o7777);
+  writeOctal(block, 108, 8, 0); // uid: extracted files belong to the extracting user
+  writeOctal(block, 116, 8, 0); // gid
+  writeOctal(block, 124, 12, f.size);
+  writeOctal(block, 136, 12, Math.max(0, Math.floor(f.mtime.getTime() / 1000)));
+  block.fill(' ', 148, 156); // checksum placeholder
+  block.write(f.typeflag, 156, 1, 'ascii');
+  block.write(f.linkname, 157, 100, 'utf8');
+  block.write('ustar\0', 257, 6, 'ascii');
+  block.write('00', 263, 2, 'ascii');
+  block.write(f.prefix, 345, 155, 'utf8');
+
+  let sum = 0;
+  for (const byte of block) sum += byte;
+  block.write(`${sum.toString(8).padStart(6, '0')}\0 `, 148, 8, 'ascii');
+  return block;
+}
+
+function writeOctal(block: Buffer, offset: number, length: number, value: number): void {
+  const digits = value.toString(8);
+  if (digits.length > length - 1) {
+    // GNU base-256 for values that do not fit (e.g. files over 8 GiB)
+    block[offset] = 0x80;
+    let v = value;
+    for (let i = offset + length - 1; i > offset; i--) {
+      block[i] = v % 256;
+      v = Math.floor(v / 256);
+    }
+    return;
+  }
+  block.write(`${digits.padStart(length - 1, '0')}\0`, offset, length, 'ascii');
+}
+
+/** Split a path into ustar prefix/name fields, or null if it does not fit. */
+function splitUstarName(path: string): { prefix: string; name: string } | null {
+  if (Buffer.byteLength(path) <= 100) return { prefix: '', name: path };
+  for (let i = path.indexOf('/'); i !== -1; i = path.indexOf('/', i + 1)) {
+    const prefix = path.slice(0, i);
+    const name = path.slice(i + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100 && name.length > 0) {
+      return { prefix, name };
+    }
+  }
+  return null;
+}
+
+function encodePax(fields: Record<string, string>): Buffer {
+  const records = Object.entries(fields).map(([key, value]) => {
+    // Record length includes its own decimal digits
+    const base = ` ${key}=${value}\n`;
+    const n = Buffer.byteLength(base);
+    let len = n + String(n).length;
+    if (String(len).length > String(n).length) len = n + String(len).length;
+    return `${len}${base}`;
+  });
+  return Buffer.from(records.join(''), 'utf8');
+}
+
+function truncateUtf8(s: string, maxBytes: number): string {
+  const buf = Buffer.from(s, 'utf8');
+  return buf.length <= maxBytes ? s : buf.subarray(0, maxBytes).toString('utf8');
+}
+
+function typeflagFor(type: TarEntryType): string {
+  switch (type) {
+    case 'directory':
+      return '5';
+    case 'symlink':
+      return '2';
+    default:
+      return '0';
+  }
+}
+
+// ─── Reading ───
+
+export class TarFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TarFormatError';
+  }
+}
+
+export interface TarEntry {
+  header: TarHeader;
+  /** Entry contents; whatever is not consumed is skipped when iteration continues */
+  data: AsyncIterable<Buffer>;
+}
+
+/** Parse a tar stream into entries. Consume each entry's data before the next. */
+export async function* readTar(source: AsyncIterable<Buffer>): AsyncGenerator<TarEntry> {
+  const reader = new ChunkReader(source[Symbol.asyncIterator]());
+  let pax: Record<string, string> = {};
+  let globalPax: Record<string, string> = {};
+  let longName: string | undefined;
+  let longLink: string | undefined;
+
+  while (true) {
+    const block = await reader.read(BLOCK);
+    if (!block) return; // Truncated archive without end marker; accept what we got
+    if (block.every((b) => b === 0)) return;
+
+    verifyChecksum(block);
+    const typeflag = String.fromCharCode(block[156] || 0x30);
+    const size = readNumber(block, 124, 12);
+
+    if (typeflag === 'x' || typeflag === 'g' || typeflag === 'L' || typeflag === 'K') {
+      if (size > MAX_EXTENSION_SIZE) {
+        throw new TarFormatError(`Extended header of ${size} bytes exceeds ${MAX_EXTENSION_SIZE}`);
+      }
+      const body = await reader.read(size);
+      if (!body) throw new TarFormatError('Unexpected end of archive');
+      await reader.skip(padding(size).length);
+      if (typeflag === 'x') pax = { ...pax, ...decodePax(body) };
+      else if (typeflag === 'g') globalPax = { ...globalPax, ...decodePax(body) };
+      else if (typeflag === 'L') longName = cString(body);
+      else longLink = cString(body);
+      continue;
+    }
+
+    const fields = { ...globalPax, ...pax };
+    // Old GNU headers ('ustar  ') use the ustar prefix field for other data
+    const prefix = readString(block, 257, 6) === 'ustar' ? readString(block, 345, 155) : '';
+    const rawName =
+      fields.path ?? longName ?? (prefix ? `${prefix}/` : '') + readString(block, 0, 100);
+    const linkname = fields.linkpath ?? longLink ?? readString(block, 157, 100);
+    const dataSize = fields.size !== undefined ? Number(fields.size) : size;
+    pax = {};
+    longName = undefined;
+    longLink = undefined;
+
+    const type = entryType(typeflag, rawName);
+    const header: TarHeader = {
+      path: normalizeEntryPath(rawName),
+      type,
+      mode: readNumber(block, 100, 8) & 0o7777,
+      size: dataSize,
+      mtime: new Date(readNumber(block, 136, 12) * 1000),
+      linkname: type === 'symlink' ? linkname : undefined,
+    };
+
+    const data = new EntryData(reader, dataSize);
+    yield { header, data };
+    await reader.skip(data.remaining + padding(dataSize).length);
+  }
+}
+
+function entryType(typeflag: string, name: string): TarEntryType {
+  switch (typeflag) {
+    case '0':
+    case '7':
+      return name.endsWith('/') ? 'directory' : 'file';
+    case '5':
+      return 'directory';
+    case '2':
+      return 'symlink';
+    default:
+      return 'other';
+  }
+}
+
+/** Strip './' prefixes and trailing slashes; '.' for the archive root. */
+function normalizeEntryPath(name: string): string {
+  const parts = name.split('/').filter((p) => p !== '' && p !== '.');
+  return parts.length === 0 ? '.' : parts.join('/');
+}
+
+function verifyChecksum(block: Buffer): void {
+  const expected = readNumber(block, 148, 8);
+  let sum = 0;
+  for (let i = 0; i < BLOCK; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : block[i];
+  }
+  if (sum !== expected) {
+    throw new TarFormatError('Invalid tar header checksum');
+  }
+}
+
+function readNumber(block: Buffer, offset: number, length: number): number {
+  if (block[offset] & 0x80) {
+    let value = 0;
+    for (let i = offset + 1; i < offset + length; i++) value = value * 256 + block[i];
+    return value;
+  }
+  const text = readString(block, offset, length).trim();
+  return text ? Number.parseInt(text, 8) : 0;
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  return cString(block.subarray(offset, offset + length));
+}
+
+function cString(buf: Buffer): string {
+  const nul = buf.indexOf(0);
+  return buf.subarray(0, nul === -1 ? buf.length : nul).toString('utf8');
+}
+
+function decodePax(body: Buffer): Record<string, string> {
+  const fields: Record<string, string> = {};
+  let offset = 0;
+  while (offset < body.length) {
+    const space = body.indexOf(0x20, offset);
+    if (space === -1) break;
+    const len = Number.parseInt(body.subarray(offset, space).toString('ascii'), 10);
+    if (!Number.isFinite(len) || len <= 0) break;
+    const record = body.subarray(space + 1, offset + len - 1).toString('utf8');
+    const eq = record.indexOf('=');
+    if (eq !== -1) fields[record.slice(0, eq)] = record.slice(eq + 1);
+    offset += len;
+  }
+  return fields;
+}
+
+/** Pulls exact byte counts out of an async chunk iterator. */
+class ChunkReader {
+  private readonly source: AsyncIterator<Buffer>;
+  private buffered: Buffer = Buffer.alloc(0);
+  private done = false;
+
+  constructor(source: AsyncIterator<Buffer>) {
+    this.source = source;
+  }
+
+  /** Read exactly `n` bytes, or null if the source ends first. Only for small reads. */
+  async read(n: number): Promise<Buffer | null> {
+    while (this.buffered.length < n) {
+      if (!(await this.fill())) return null;
+    }
+    const out = this.buffered.subarray(0, n);
+    this.buffered = this.buffered.subarray(n);
+    return out;
+  }
+
+  /** Return the next 1 to `max` bytes, throwing if the source has ended. */
+  async next(max: number): Promise<Buffer> {
+    if (this.buffered.length === 0 && !(await this.fill())) {
+      throw new TarFormatError('Unexpected end of archive');
+    }
+    const chunk = this.buffered.subarray(0, max);
+    this.buffered = this.buffered.subarray(chunk.length);
+    return chunk;
+  }
+
+  async skip(n: number): Promise<void> {
+    for (let remaining = n; remaining > 0; ) {
+      remaining -= (await this.next(remaining)).length;
+    }
+  }
+
+  private async fill(): Promise<boolean> {
+    if (this.done) return false;
+    const { value, done } = await this.source.next();
+    if (done) {
+      this.done = true;
+      return false;
+    }
+    const chunk = Buffer.isBuffer(value) ? value : Buffer.from(value);
+    this.buffered = this.buffered.length === 0 ? chunk : Buffer.concat([this.buffered, chunk]);
+    return true;
+  }
+}
+
+/** The data section of one entry, read on demand. */
+class EntryData implements AsyncIterable<Buffer> {
+  private readonly reader: ChunkReader;
+  remaining: number;
+
+  constructor(reader: ChunkReader, size: number) {
+    this.reader = reader;
+    this.remaining = size;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<Buffer> {
+    while (this.remaining > 0) {
+      const chunk = await this.reader.next(this.remaining);
+      this.remaining -= chunk.length;
+      yield chunk;
+    }
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Minimal TOML reader for noid-cli config files.
+ *
+ * Supports the subset the CLI writes: comments, `[table]` / `[dotted.table]`
+ * headers, and `key = value` pairs where value is a basic or literal string,
+ * integer, float or boolean. Arrays, inline tables and multi-line strings are
+ * rejected with an error rather than silently misread, as are keys that would
+ * reach Object.prototype (`__proto__`, `constructor`, `prototype`).
+ */
+
+export type TomlValue = string | number | boolean | TomlTable;
+export interface TomlTable {
+  [key: string]: TomlValue;
+}
+
+export class TomlParseError extends Error {
+  readonly line: number;
+
+  constructor(line: number, message: string) {
+    super(`line ${line}: ${message}`);
+    this.name = 'TomlParseError';
+    this.line = line;
+  }
+}
+
+const BARE_KEY_REGEX = /^[A-Za-z0-9_-]+$/;
+const RESERVED_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+export function parseToml(source: string): TomlTable {
+  const root: TomlTable = {};
+  let current = root;
+
+  const lines = source.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const lineNo = i + 1;
+    const line = stripComment(lines[i]).trim();
+    if (line.length === 0) continue;
+
+    if (line.startsWith('[')) {
+      if (line.startsWith('[[')) {
+        throw new TomlParseError(lineNo, 'arrays of tables are not supported');
+      }
+      if (!line.endsWith(']')) {
+        throw new TomlParseError(lineNo, 'unterminated table header');
+      }
+      const keys = parseKey(line.slice(1, -1), lineNo);
+      current = root;
+      for (const key of keys) {
+        const existing = current[key];
+        if (existing === undefined) {
+          const table: TomlTable = {};
+          current[key] = table;
+          current = table;
+        } else if (isTable(existing)) {
+          current = existing;
+        } else {
+          throw new TomlParseError(lineNo, `'${key}' is not a table`);
+        }
+      }
+      continue;
+    }
+
+    const eq = findUnquoted(line, '=');
+    if (eq === -1) {
+      throw new TomlParseError(lineNo, "expected 'key = value'");
+    }
+    const keys = parseKey(line.slice(0, eq), lineNo);
+    const value = parseValue(line.slice(eq + 1).trim(), lineNo);
+
+    let table = current;
+    for (const key of keys.slice(0, -1)) {
+      const existing = table[key];
+      if (existing === undefined) {
+        const child: TomlTable = {};
+        table[key] = child;
+        table = child;
+      } else if (isTable(existing)) {
+        table = existing;
+      } else {
+        throw new TomlParseError(lineNo, `'${key}' is not a table`);
+      }
+    }
+    table[keys[keys.length - 1]] = value;
+  }
+
+  return root;
+}
+
+export function isTable(value: TomlValue | undefined): value is TomlTable {
+  return typeof value === 'object' && value !== null;
+}
+
+function parseKey(raw: string, lineNo: number): string[] {
+  const parts: string[] = [];
+  let rest = raw.trim();
+
+  while (rest.length > 0) {
+    let part: string;
+    if (rest.startsWith('"') || rest.startsWith("'")) {
+      const end = closingQuote(rest, lineNo);
+      part = parseString(rest.slice(0, end + 1), lineNo);
+      rest = rest.slice(end + 1).trim();
+    } else {
+      const dot = rest.indexOf('.');
+      part = (dot === -1 ? rest : rest.slice(0, dot)).trim();
+      if (!BARE_KEY_REGEX.test(part)) {
+        throw new TomlParseError(lineNo, `invalid key '${part}'`);
+      }
+      rest = dot === -1 ? '' : rest.slice(dot);
+    }
+    if (RESERVED_KEYS.has(part)) {
+      throw new TomlParseError(lineNo, `reserved key '${part}'`);
+    }
+    parts.push(part);
+
+    if (rest.startsWith('.')) {
+      rest = rest.slice(1).trim();
+      if (rest.length === 0) throw new TomlParseError(lineNo, 'key cannot end with "."');
+    } else if (rest.length > 0) {
+      throw new TomlParseError(lineNo, `unexpected '${rest}' in key`);
+    }
+  }
+
+  if (parts.length === 0) {
+    throw new TomlParseError(lineNo, 'empty key');
+  }
+  return parts;
+}
+
+function parseValue(raw: string, lineNo: number): TomlValue {
+  if (raw.length === 0) {
+    throw new TomlParseError(lineNo, 'missing value');
+  }
+  if (raw.startsWith('"""') || raw.startsWith("'''")) {
+    throw new TomlParseError(lineNo, 'multi-line strings are not supported');
+  }
+  if (raw.startsWith('"') || raw.startsWith("'")) {
+    const end = closingQuote(raw, lineNo);
+    if (end !== raw.length - 1) {
+      throw new TomlParseError(lineNo, 'unexpected characters after string');
+    }
+    return parseString(raw, lineNo);
+  }
+  if (raw === 'true') return true;
+  if (raw === 'false') return false;
+  if (raw.startsWith('[') || raw.startsWith('{')) {
+    throw new TomlParseError(lineNo, 'arrays and inline tables are not supported');
+  }
+
+  const num = Number(raw.replace(/_/g, ''));
+  if (!Number.isNaN(num) && /^[+-]?[0-9]/.test(raw)) {
+    return num;
+  }
+  throw new TomlParseError(lineNo, `invalid value '${raw}'`);
+}
+
+function parseString(raw: string, lineNo: number): string {
+  const inner = raw.slice(1, -1);
+  if (raw.startsWith("'")) return inner;
+
+  return inner.replace(/\\(u[0-9A-Fa-f]{4}|U[0-9A-Fa-f]{8}|.)/g, (_m, esc: string) => {
+    switch (esc[0]) {
+      case 'b':
+        return '\b';
+      case 't':
+        return '\t';
+      case 'n':
+        return '\n';
+      case 'f':
+        return '\f';
+      case 'r':
+        return '\r';
+      case '"':
+        return '"';
+      case '\\':
+        return '\\';
+      case 'u':
+      case 'U':
+        return String.fromCodePoint(Number.parseInt(esc.slice(1), 16));
+      default:
+        throw new TomlParseError(lineNo, `invalid escape '\\${esc}'`);
+    }
+  });
+}
+
+/** Index of the quote closing the string that starts at position 0. */
+function closingQuote(s: string, lineNo: number): number {
+  const quote = s[0];
+  for (let i = 1; i < s.length; i++) {
+    if (quote === '"' && s[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (s[i] === quote) return i;
+  }
+  throw new TomlParseError(lineNo, 'unterminated string');
+}
+
+/** Index of `ch` outside any quoted string, or -1. */
+function findUnquoted(s: string, ch: string): number {
+  let quote: string | null = null;
+  for (let i = 0; i < s.length; i++) {
+    const c = s[i];
+    if (quote) {
+      if (quote === '"' && c === '\\') i++;
+      else if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === ch) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function stripComment(line: string): string {
+  const hash = findUnquoted(line, '#');
+  return hash === -1 ? line : line.slice(0, hash);
+}
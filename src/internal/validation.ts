@@ -3,6 +3,7 @@ import { NoidValidationError } from '../errors.js';
 import type { EnvVars } from '../types.js';
 
 const VM_NAME_MAX_LEN = 64;
+const TTY_DIMENSION_MAX = 0xffff;
 const ENV_NAME_REGEX = /^[A-Za-z_][A-Za-z0-9_]*$/;
 
 export function validateVmName(name: string): void {
@@ -52,3 +53,22 @@ export function validateEnvVars(env: EnvVars): void {
 export function validateEnvName(name: string): boolean {
   return ENV_NAME_REGEX.test(name);
 }
+
+export function validateTtySize(cols: number, rows: number): void {
+  for (const [field, value] of [
+    ['cols', cols],
+    ['rows', rows],
+  ] as const) {
+    if (!Number.isInteger(value) || value < 1 || value > TTY_DIMENSION_MAX) {
+      throw new NoidValidationError(field, `Must be an integer between 1 and ${TTY_DIMENSION_MAX}`);
+    }
+  }
+}
+
+/** Validate a TCP port; 0 (any free port) is only accepted when `allowAny` is set. */
+export function validatePort(field: string, port: number, allowAny = false): void {
+  const min = allowAny ? 0 : 1;
+  if (!Number.isInteger(port) || port < min || port > 65535) {
+    throw new NoidValidationError(field, `Must be an integer between ${min} and 65535`);
+  }
+}
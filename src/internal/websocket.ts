@@ -2,49 +2,130 @@ import { EventEmitter } from 'node:events';
 import WebSocket from 'ws';
 import { StreamID, WS_PING_INTERVAL_MS } from '../constants.js';
 import { NoidConnectionError } from '../errors.js';
+import type { ConnectionCloseInfo, NoidMiddleware, NoidWebSocketRequest } from '../types.js';
+import { abortError, onAbort, throwIfAborted } from './abort.js';
+
+export interface WebSocketOptions {
+  /** Fail connect() if the handshake takes longer (0 or unset: no limit) */
+  connectTimeoutMs?: number;
+  /** Keepalive ping interval, which is also how long a pong may take (default: 30_000) */
+  pingIntervalMs?: number;
+}
 
 /**
  * Low-level WebSocket wrapper for noid binary protocol.
  *
+ * Once open, the connection is pinged every `pingIntervalMs`; if no pong arrives
+ * before the next ping it is presumed dead and terminated. While reading is
+ * paused pongs cannot arrive, so the check is suspended until resume().
+ *
  * Emits:
  * - 'stdout' (Buffer) — data from CHANNEL_STDOUT (0x01)
  * - 'stderr' (Buffer) — data from CHANNEL_STDERR (0x02)
  * - 'message' (string) — text frames (JSON: ExecResult, ErrorResponse)
- * - 'close' — connection closed
- * - 'error' (Error) — connection error
+ * - 'close' (info: ConnectionCloseInfo) — connection closed
+ * - 'error' (NoidConnectionError) — connection error after connect() resolved,
+ *   including a missed pong; 'close' follows
  */
 export class NoidWebSocket extends EventEmitter {
   private readonly url: string;
   private readonly token: string;
+  private readonly middleware: readonly NoidMiddleware[];
+  private readonly options: WebSocketOptions;
   private ws?: WebSocket;
   private pingInterval?: ReturnType<typeof setInterval>;
+  private awaitingPong = false;
+  private paused = false;
+  private failure?: NoidConnectionError;
+  private _closeInfo?: ConnectionCloseInfo;
 
-  constructor(url: string, token: string) {
+  constructor(
+    url: string,
+    token: string,
+    middleware: readonly NoidMiddleware[] = [],
+    options: WebSocketOptions = {},
+  ) {
     super();
     this.url = url;
     this.token = token;
+    this.middleware = middleware;
+    this.options = options;
   }
 
-  async connect(): Promise<void> {
+  /** How the connection closed, once it has. */
+  get closeInfo(): ConnectionCloseInfo | undefined {
+    return this._closeInfo;
+  }
+
+  /**
+   * Open the connection. If `signal` fires before the handshake completes the
+   * socket is torn down and the promise rejects with NoidAbortError.
+   */
+  async connect(signal?: AbortSignal): Promise<void> {
+    throwIfAborted(signal, 'WebSocket connect');
+
+    const req: NoidWebSocketRequest = {
+      url: this.url,
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+      },
+    };
+    for (const mw of this.middleware) {
+      await mw.websocket?.(req);
+    }
+    throwIfAborted(signal, 'WebSocket connect');
+
     return new Promise((resolve, reject) => {
-      this.ws = new WebSocket(this.url, {
-        headers: {
-          Authorization: `Bearer ${this.token}`,
-        },
+      this.ws = new WebSocket(req.url, { headers: req.headers });
+      let connected = false;
+
+      const connectTimeoutMs = this.options.connectTimeoutMs ?? 0;
+      const connectTimer =
+        connectTimeoutMs > 0
+          ? setTimeout(() => {
+              detachAbort();
+              reject(
+                new NoidConnectionError(`WebSocket connect timed out after ${connectTimeoutMs}ms`),
+              );
+              this.close();
+            }, connectTimeoutMs)
+          : undefined;
+
+      const detachAbort = onAbort(signal, () => {
+        clearTimeout(connectTimer);
+        reject(abortError(signal as AbortSignal, 'WebSocket connect'));
+        this.close();
       });
 
       this.ws.on('open', () => {
+        connected = true;
+        clearTimeout(connectTimer);
+        detachAbort();
+        if (this.paused) this.ws?.pause(); // pause() came before the socket could be paused
         this.startKeepalive();
         resolve();
       });
 
       this.ws.on('error', (err: Error) => {
-        reject(new NoidConnectionError(`WebSocket error: ${err.message}`, { cause: err }));
+        const error = new NoidConnectionError(`WebSocket error: ${err.message}`, { cause: err });
+        if (connected) {
+          this.fail(error);
+          return;
+        }
+        clearTimeout(connectTimer);
+        detachAbort();
+        reject(error);
       });
 
-      this.ws.on('close', () => {
+      this.ws.on('pong', () => {
+        this.awaitingPong = false;
+      });
+
+      this.ws.on('close', (code: number, reason: Buffer) => {
+        clearTimeout(connectTimer);
         this.stopKeepalive();
-        this.emit('close');
+        this._closeInfo = { code, reason: reason.toString(), error: this.failure };
+        this.emit('close', this._closeInfo);
       });
 
       this.ws.on('message', (data: WebSocket.RawData, isBinary: boolean) => {
@@ -75,13 +156,24 @@ export class NoidWebSocket extends EventEmitter {
     });
   }
 
-  /** Send binary frame */
-  send(data: Buffer | Uint8Array): void {
+  /**
+   * Send binary frame. `cb` runs once the frame is handed to the socket (or
+   * immediately if the connection is not open), so callers can apply backpressure.
+   */
+  send(data: Buffer | Uint8Array, cb?: (err?: Error) => void): void {
     if (this.ws?.readyState === WebSocket.OPEN) {
-      this.ws.send(data);
+      this.ws.send(data, cb);
+    } else {
+      cb?.();
     }
   }
 
+  /** Send a CHANNEL_RESIZE frame: [0x04][JSON {cols, rows}] */
+  sendResize(cols: number, rows: number): void {
+    const payload = Buffer.from(JSON.stringify({ cols, rows }));
+    this.send(Buffer.concat([Buffer.from([StreamID.Resize]), payload]));
+  }
+
   /** Send text frame */
   sendText(data: string): void {
     if (this.ws?.readyState === WebSocket.OPEN) {
@@ -89,19 +181,54 @@ export class NoidWebSocket extends EventEmitter {
     }
   }
 
+  /** Stop reading from the socket (inbound flow control). Suspends the pong check. */
+  pause(): void {
+    this.paused = true;
+    this.awaitingPong = false;
+    this.ws?.pause();
+  }
+
+  /** Resume reading after pause(). The next ping starts a fresh pong check. */
+  resume(): void {
+    this.paused = false;
+    this.awaitingPong = false;
+    this.ws?.resume();
+  }
+
   close(): void {
     this.stopKeepalive();
     if (this.ws?.readyState === WebSocket.OPEN) {
       this.ws.close(1000);
+    } else if (this.ws?.readyState === WebSocket.CONNECTING) {
+      // close() during the handshake throws; terminate aborts it instead
+      this.ws.terminate();
     }
   }
 
   private startKeepalive(): void {
+    const intervalMs = this.options.pingIntervalMs ?? WS_PING_INTERVAL_MS;
     this.pingInterval = setInterval(() => {
-      if (this.ws?.readyState === WebSocket.OPEN) {
-        this.ws.ping();
+      if (this.ws?.readyState !== WebSocket.OPEN) return;
+      if (this.awaitingPong) {
+        this.fail(
+          new NoidConnectionError(
+            `WebSocket connection lost: no pong from server in ${intervalMs}ms`,
+          ),
+        );
+        this.ws.terminate();
+        return;
       }
-    }, WS_PING_INTERVAL_MS);
+      this.ws.ping();
+      // A pong sent while paused sits unread in the socket buffer
+      this.awaitingPong = !this.paused;
+    }, intervalMs);
+  }
+
+  /** Record why the connection failed (reported with 'close') and emit it. */
+  private fail(err: NoidConnectionError): void {
+    if (this.failure) return;
+    this.failure = err;
+    this.emit('error', err);
   }
 
   private stopKeepalive(): void {
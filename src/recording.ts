@@ -0,0 +1,317 @@
+import { EventEmitter, once } from 'node:events';
+import { createReadStream, createWriteStream } from 'node:fs';
+import { createInterface } from 'node:readline';
+import type { Readable, Writable } from 'node:stream';
+import { StringDecoder } from 'node:string_decoder';
+import { NoidValidationError } from './errors.js';
+import { onAbort, sleep, throwIfAborted } from './internal/abort.js';
+import type { PlayOptions, RecordOptions } from './types.js';
+
+const DEFAULT_REDACTION = '********';
+
+/** The asciinema v2 header fields playback uses. */
+interface CastHeader {
+  version?: number;
+  idle_time_limit?: number;
+}
+
+/** Session I/O as seen by a recorder: output, input, a resize ("80x24"), or the end. */
+export type SessionEvent = 'o' | 'i' | 'r' | 'end';
+export type SessionTap = (event: SessionEvent, data?: Buffer | string) => void;
+
+/** What a SessionRecorder needs from a VmConsole or a tty VmCommand. */
+export interface RecordedSession {
+  /** @internal Subscribe to session I/O; returns a function that unsubscribes */
+  _tap(tap: SessionTap): () => void;
+  /** @internal Current terminal size */
+  _terminalSize(): { cols: number; rows: number };
+  /** @internal Stop reading session output until the returned function is called */
+  _hold(): () => void;
+}
+
+/**
+ * Records a console or tty command as an asciinema v2 cast: a JSON header line,
+ * then one `[seconds, type, data]` line per event. Created by `console.record()`
+ * and `command.record()`; stops by itself when the session ends.
+ *
+ * Registered secrets are replaced before anything is written, including values
+ * split across output chunks. When the target falls behind, the session stops
+ * reading output until it drains, so a slow target does not buffer the session.
+ *
+ * Emits:
+ * - 'error' (Error) — writing the recording failed; recording stops
+ */
+export class SessionRecorder extends EventEmitter {
+  private readonly session: RecordedSession;
+  private readonly output: Writable;
+  private readonly ownsOutput: boolean;
+  private readonly started = performance.now();
+  private readonly secrets = new Set<string>();
+  private readonly redaction: string;
+  private readonly streams: Record<'o' | 'i', { decoder: StringDecoder; redactor: Redactor }>;
+  private readonly untap: () => void;
+  private readonly detachAbort: () => void;
+  private stopping?: Promise<void>;
+  private failed?: Error;
+  /** Lets the session read again; set while the output is backed up */
+  private releaseSession?: () => void;
+
+  constructor(session: RecordedSession, target: string | Writable, options?: RecordOptions) {
+    super();
+    throwIfAborted(options?.signal, 'Recording');
+    this.session = session;
+    this.redaction = options?.redaction ?? DEFAULT_REDACTION;
+    for (const secret of options?.secrets ?? []) this.redact(secret);
+    const stream = () => ({
+      decoder: new StringDecoder('utf8'),
+      redactor: new Redactor(this.secrets, this.redaction),
+    });
+    this.streams = { o: stream(), i: stream() };
+
+    this.ownsOutput = typeof target === 'string';
+    this.output = typeof target === 'string' ? createWriteStream(target) : target;
+    this.output.on('error', (err: Error) => this.fail(err));
+
+    const { cols, rows } = session._terminalSize();
+    this.writeLine({
+      version: 2,
+      width: cols,
+      height: rows,
+      timestamp: Math.floor(Date.now() / 1000),
+      ...(options?.title !== undefined && { title: options.title }),
+      ...(options?.env !== undefined && { env: options.env }),
+    });
+
+    const recordInput = options?.input ?? false;
+    this.untap = session._tap((event, data) => {
+      if (event === 'end') void this.stop().catch(() => {});
+      else if (event === 'r') this.writeEvent('r', String(data));
+      else if (event === 'o' || recordInput) this.writeData(event, data as Buffer);
+    });
+    this.detachAbort = onAbort(options?.signal, () => void this.stop().catch(() => {}));
+  }
+
+  /** Replace `secret` wherever it appears in the recording from now on. */
+  redact(secret: string): void {
+    if (typeof secret !== 'string' || secret.length === 0) {
+      throw new NoidValidationError('secrets', 'Secrets must be non-empty strings');
+    }
+    this.secrets.add(secret);
+  }
+
+  /** Add a marker (asciinema 'm' event), e.g. to label a step in the session. */
+  marker(label = ''): void {
+    this.writeEvent('m', label);
+  }
+
+  /** Stop recording. Resolves once everything is written (and a recording file is closed). */
+  stop(): Promise<void> {
+    this.stopping ??= (async () => {
+      this.untap();
+      this.detachAbort();
+      this.releaseSession?.();
+      for (const event of ['o', 'i'] as const) {
+        const { decoder, redactor } = this.streams[event];
+        const rest = redactor.push(decoder.end()) + redactor.flush();
+        if (rest) this.writeEvent(event, rest);
+      }
+      if (this.ownsOutput) {
+        this.output.end();
+        if (!this.output.writableFinished && !this.failed) await once(this.output, 'finish');
+      } else if (!this.failed) {
+        await new Promise<void>((resolve) => this.output.write('', () => resolve()));
+      }
+      if (this.failed) throw this.failed;
+    })();
+    return this.stopping;
+  }
+
+  private writeData(event: 'o' | 'i', data: Buffer): void {
+    const { decoder, redactor } = this.streams[event];
+    const text = redactor.push(decoder.write(data));
+    if (text) this.writeEvent(event, text);
+  }
+
+  private writeEvent(type: string, data: string): void {
+    const seconds = (performance.now() - this.started) / 1000;
+    this.writeLine([Number(seconds.toFixed(6)), type, data]);
+  }
+
+  private writeLine(value: unknown): void {
+    if (this.failed || this.output.writableEnded) return;
+    if (this.output.write(`${JSON.stringify(value)}\n`) || this.releaseSession) return;
+
+    const release = this.session._hold();
+    const releaseSession = () => {
+      this.output.off('drain', releaseSession).off('close', releaseSession);
+      this.releaseSession = undefined;
+      release();
+    };
+    this.releaseSession = releaseSession;
+    this.output.on('drain', releaseSession).on('close', releaseSession);
+  }
+
+  private fail(err: Error): void {
+    if (this.failed) return;
+    this.failed = err;
+    this.emit('error', err);
+    void this.stop().catch(() => {});
+  }
+}
+
+/**
+ * Replaces secrets in text that arrives in chunks. A chunk ending in what could
+ * be the start of a secret is held back until the next chunk settles it. Overlapping
+ * secrets are covered together by one replacement, so neither leaks a fragment.
+ */
+export class Redactor {
+  private readonly secrets: ReadonlySet<string>;
+  private readonly replacement: string;
+  /** Raw text held back from the previous chunk */
+  private pending = '';
+  /** Leading characters of `pending` that finish a secret whose replacement was already emitted */
+  private maskedHead = 0;
+
+  constructor(secrets: ReadonlySet<string>, replacement: string) {
+    this.secrets = secrets;
+    this.replacement = replacement;
+  }
+
+  push(text: string): string {
+    const all = this.pending + text;
+    const ranges = this.find(all);
+    const cut = all.length - this.partialSecretLength(all);
+    const emitted = this.mask(all.slice(0, cut), ranges);
+
+    // A secret straddling the cut was replaced above; drop its remainder next time
+    this.maskedHead = 0;
+    for (const [start, end] of ranges) {
+      if (start < cut) this.maskedHead = Math.max(this.maskedHead, end - cut);
+    }
+    this.pending = all.slice(cut);
+    return emitted;
+  }
+
+  flush(): string {
+    const rest = this.mask(this.pending, this.find(this.pending));
+    this.pending = '';
+    this.maskedHead = 0;
+    return rest;
+  }
+
+  /** Every [start, end) range of `text` covered by a secret, sorted by start. */
+  private find(text: string): [number, number][] {
+    const ranges: [number, number][] = this.maskedHead > 0 ? [[0, this.maskedHead]] : [];
+    for (const secret of this.secrets) {
+      for (let i = text.indexOf(secret); i !== -1; i = text.indexOf(secret, i + 1)) {
+        ranges.push([i, i + secret.length]);
+      }
+    }
+    return ranges.sort((a, b) => a[0] - b[0]);
+  }
+
+  /** Length of the longest tail of `text` that a secret could still start with. */
+  private partialSecretLength(text: string): number {
+    let hold = 0;
+    for (const secret of this.secrets) {
+      for (let n = Math.min(secret.length - 1, text.length); n > hold; n--) {
+        if (text.endsWith(secret.slice(0, n))) {
+          hold = n;
+          break;
+        }
+      }
+    }
+    return hold;
+  }
+
+  /**
+   * Replace each run of overlapping `ranges` within `text` with one replacement.
+   * A run continuing the masked head is dropped, its replacement already emitted.
+   */
+  private mask(text: string, ranges: [number, number][]): string {
+    let out = '';
+    let pos = 0;
+    let run: [number, number] | undefined;
+    const close = () => {
+      if (!run) return;
+      out += text.slice(pos, run[0]) + (run[0] < this.maskedHead ? '' : this.replacement);
+      pos = Math.min(run[1], text.length);
+    };
+    for (const [start, end] of ranges) {
+      if (start >= text.length) break;
+      if (run && start <= run[1]) {
+        run[1] = Math.max(run[1], end);
+      } else {
+        close();
+        run = [start, end];
+      }
+    }
+    close();
+    return out + text.slice(pos);
+  }
+}
+
+/**
+ * Replay an asciinema v2 recording (a `.cast` path or stream) to `output`, keeping
+ * its timing at `speed`. Output events are written; input and markers are skipped.
+ */
+export async function playRecording(
+  source: string | Readable,
+  options?: PlayOptions,
+): Promise<void> {
+  throwIfAborted(options?.signal, 'Playback');
+  const speed = options?.speed ?? 1;
+  if (!(speed > 0)) {
+    throw new NoidValidationError('speed', 'Must be a positive number');
+  }
+  const output = options?.output ?? process.stdout;
+  const input = typeof source === 'string' ? createReadStream(source) : source;
+  const lines = createInterface({ input, crlfDelay: Number.POSITIVE_INFINITY });
+
+  try {
+    let header: CastHeader | undefined;
+    const started = performance.now();
+    let clock = 0;
+    let last = 0;
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      const parsed = parseLine(line);
+      if (!header) {
+        header = parsed as CastHeader;
+        if (header?.version !== 2) {
+          throw new NoidValidationError('source', 'Not an asciinema v2 recording');
+        }
+        continue;
+      }
+      if (
+        !Array.isArray(parsed) ||
+        typeof parsed[0] !== 'number' ||
+        typeof parsed[2] !== 'string'
+      ) {
+        throw new NoidValidationError('source', `Malformed recording event: ${line.slice(0, 80)}`);
+      }
+      const [time, type, data] = parsed as [number, string, string];
+
+      const maxIdle = options?.maxIdle ?? header.idle_time_limit ?? Number.POSITIVE_INFINITY;
+      clock += Math.min(Math.max(time - last, 0), maxIdle);
+      last = time;
+      const wait = started + (clock * 1000) / speed - performance.now();
+      if (wait > 0) await sleep(wait, options?.signal);
+      throwIfAborted(options?.signal, 'Playback');
+
+      if (type === 'o' && !output.write(data)) await once(output, 'drain');
+    }
+    if (!header) throw new NoidValidationError('source', 'Recording is empty');
+  } finally {
+    lines.close();
+    if (typeof source === 'string') input.destroy();
+  }
+}
+
+function parseLine(line: string): unknown {
+  try {
+    return JSON.parse(line);
+  } catch {
+    throw new NoidValidationError('source', `Invalid JSON in recording: ${line.slice(0, 80)}`);
+  }
+}
@@ -0,0 +1,71 @@
+import { NoidValidationError } from './errors.js';
+
+/** Characters that never need quoting in a POSIX shell word. */
+const SAFE_WORD_REGEX = /^[A-Za-z0-9_@%+=:,./-]+$/;
+
+const RAW = Symbol('noid.rawShell');
+
+/** Shell text inserted verbatim by `vm.sh`. Create with `rawShell()`. */
+export interface RawShell {
+  readonly [RAW]: string;
+}
+
+/** A value interpolated into a `vm.sh` template. Arrays expand to one quoted word per item. */
+export type ShellValue = string | number | RawShell | readonly (string | number | RawShell)[];
+
+/**
+ * Quote a value as a single POSIX shell word.
+ * Safe words pass through; anything else is single-quoted with embedded quotes escaped.
+ */
+export function quoteShellArg(value: string): string {
+  if (value === '') return "''";
+  if (SAFE_WORD_REGEX.test(value)) return value;
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Opt out of quoting for one interpolation, e.g. to splice in a glob or an
+ * operator. The text is passed to the shell unchanged: never use it with untrusted input.
+ */
+export function rawShell(text: string): RawShell {
+  return { [RAW]: text };
+}
+
+/** Build a shell script from a tagged template, quoting every interpolated value. */
+export function buildShellScript(
+  strings: TemplateStringsArray,
+  values: readonly ShellValue[],
+): string {
+  let script = strings[0];
+  for (let i = 0; i < values.length; i++) {
+    script += renderValue(values[i], i) + strings[i + 1];
+  }
+  return script;
+}
+
+export function isTemplateStrings(value: unknown): value is TemplateStringsArray {
+  return Array.isArray(value) && 'raw' in value;
+}
+
+function renderValue(value: ShellValue, index: number): string {
+  if (Array.isArray(value)) {
+    return value.map((item) => renderWord(item, index)).join(' ');
+  }
+  return renderWord(value as string | number | RawShell, index);
+}
+
+function renderWord(value: string | number | RawShell, index: number): string {
+  if (typeof value === 'string') return quoteShellArg(value);
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  if (typeof value === 'object' && value !== null && RAW in value) return value[RAW];
+  throw new NoidValidationError(
+    'command',
+    `Shell interpolation #${index + 1} must be a string, finite number, array or rawShell(), got ${describe(value)}`,
+  );
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'nested array';
+  return typeof value;
+}
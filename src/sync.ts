@@ -0,0 +1,335 @@
+import { createHash } from 'node:crypto';
+import { EventEmitter } from 'node:events';
+import { createReadStream, type FSWatcher, type Stats, statSync, watch } from 'node:fs';
+import { lstat, readdir, readlink, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import { NoidValidationError } from './errors.js';
+import { fsError, scriptCommand, validatePath } from './fs.js';
+import { onAbort } from './internal/abort.js';
+import { extractInGuest, PathFilter, ProgressTracker, packPaths } from './transfer.js';
+import type { SyncOptions, SyncResult, WatchSyncOptions } from './types.js';
+import type { Vm } from './vm.js';
+
+/** Default quiet period before a watch-triggered sync, in milliseconds. */
+const DEFAULT_DEBOUNCE_MS = 100;
+
+// Run as `sh -c <script> sh <dir> [find args...]`. A missing directory lists as empty.
+const SCRIPTS = {
+  manifest:
+    '[ -e "$1" ] || exit 0; [ -d "$1" ] || exit 71; cd -- "$1" || exit 73; ' +
+    'command -v sha256sum >/dev/null || { echo "sha256sum: not found" >&2; exit 127; }; ' +
+    'shift; exec find . "$@"',
+  remove: 'cd -- "$1" 2>/dev/null || exit 0; exec xargs -0 rm -f --',
+} as const;
+
+// Per-entry records on stdout: `F\0path\0<x|-> <sha256>  -\n\0` and `L\0path\0target\n\0`
+const HASH_FILES =
+  'for f; do if [ -x "$f" ]; then x=x; else x=-; fi; ' +
+  'printf "F\\0%s\\0%s " "$f" "$x"; sha256sum < "$f"; printf "\\0"; done';
+const READ_LINKS = 'for f; do printf "L\\0%s\\0" "$f"; readlink -- "$f"; printf "\\0"; done';
+
+/**
+ * What a sync compares for each file or symlink: content (or link target) and,
+ * as git does, only the executable bit of the mode.
+ */
+interface ManifestEntry {
+  type: 'file' | 'symlink';
+  executable: boolean;
+  /** sha256 of the content, or the symlink target */
+  digest: string;
+  /** Local stat fields used to skip re-hashing unchanged files */
+  size?: number;
+  mtimeMs?: number;
+}
+
+type Manifest = Map<string, ManifestEntry>;
+
+/** Manifests carried between runs of a watcher. */
+interface SyncState {
+  local?: Manifest;
+  /** Remote content as of the last sync; when set, the guest is not re-scanned */
+  remote?: Manifest;
+}
+
+/** Make `remoteDir` match `localDir`, transferring only what differs. See Vm.sync(). */
+export async function syncToVm(
+  vm: Vm,
+  localDir: string,
+  remoteDir: string,
+  options?: SyncOptions,
+  state: SyncState = {},
+): Promise<SyncResult> {
+  validatePath(remoteDir);
+  await validateLocalDir(localDir);
+  const filter = new PathFilter(options);
+
+  const local = await scanLocal(localDir, filter, state.local);
+  const remote = state.remote ?? (await scanRemote(vm, remoteDir, filter, options));
+  state.local = local;
+
+  const added: string[] = [];
+  const changed: string[] = [];
+  const deleted: string[] = [];
+  let unchanged = 0;
+  for (const [path, entry] of local) {
+    const existing = remote.get(path);
+    if (!existing) added.push(path);
+    else if (!sameEntry(entry, existing)) changed.push(path);
+    else unchanged++;
+  }
+  if (options?.delete) {
+    for (const path of remote.keys()) {
+      if (!local.has(path)) deleted.push(path);
+    }
+  }
+
+  const progress = new ProgressTracker(options?.onProgress);
+  if (!options?.dryRun) {
+    if (deleted.length > 0) {
+      await removeRemote(vm, remoteDir, deleted, options?.signal);
+    }
+    const transfer = [...added, ...changed].sort();
+    if (transfer.length > 0) {
+      await extractInGuest(vm, remoteDir, packPaths(localDir, transfer, progress), options?.signal);
+    }
+    state.remote = local;
+  } else {
+    state.remote = remote;
+  }
+
+  return {
+    added: added.sort(),
+    changed: changed.sort(),
+    deleted: deleted.sort(),
+    unchanged,
+    bytes: progress.result().bytes,
+    dryRun: options?.dryRun ?? false,
+  };
+}
+
+/**
+ * Keeps a VM directory in sync with a local one, re-syncing after local changes.
+ * Created by Vm.watchSync(); performs an initial sync straight away.
+ *
+ * The guest is scanned once; later syncs assume it still holds what was last sent.
+ * Needs recursive `fs.watch` (Node 20+ on Linux; macOS and Windows).
+ *
+ * Emits:
+ * - 'sync' (result: SyncResult) — a sync finished
+ * - 'error' (Error) — a sync or the watcher failed; watching continues until close().
+ *   Only emitted when a listener is attached, so unobserved failures do not crash the process.
+ *
+ * Throws NoidValidationError if `localDir` is not a directory.
+ */
+export class VmSyncWatcher extends EventEmitter {
+  private readonly vm: Vm;
+  private readonly localDir: string;
+  private readonly remoteDir: string;
+  private readonly options?: WatchSyncOptions;
+  private readonly filter: PathFilter;
+  private readonly state: SyncState = {};
+  private readonly watcher: FSWatcher;
+  private readonly detachAbort: () => void;
+  private timer?: ReturnType<typeof setTimeout>;
+  private running?: Promise<void>;
+  private pending = false;
+  private closed = false;
+
+  constructor(vm: Vm, localDir: string, remoteDir: string, options?: WatchSyncOptions) {
+    super();
+    this.vm = vm;
+    this.localDir = localDir;
+    this.remoteDir = remoteDir;
+    this.options = options;
+    this.filter = new PathFilter(options);
+
+    validateLocalDirSync(localDir);
+    this.watcher = watch(localDir, { recursive: true }, (_event, filename) => {
+      const path = filename?.toString().split('\\').join('/');
+      if (path && this.filter.excludes(path)) return;
+      this.schedule(options?.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+    });
+    this.watcher.on('error', (err) => this.emitError(err));
+    this.detachAbort = onAbort(options?.signal, () => void this.close());
+    this.schedule(0);
+  }
+
+  /** Stop watching. Resolves once any in-progress sync has finished. */
+  async close(): Promise<void> {
+    if (this.closed) return this.running;
+    this.closed = true;
+    clearTimeout(this.timer);
+    this.watcher.close();
+    this.detachAbort();
+    await this.running;
+  }
+
+  /** Failures do not stop watching, so only emit them to listeners that asked. */
+  private emitError(err: Error): void {
+    if (this.listenerCount('error') > 0) this.emit('error', err);
+  }
+
+  private schedule(delay: number): void {
+    if (this.closed) return;
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.run(), delay);
+  }
+
+  private run(): void {
+    if (this.running) {
+      this.pending = true;
+      return;
+    }
+    this.running = syncToVm(this.vm, this.localDir, this.remoteDir, this.options, this.state)
+      .then(
+        (result) => {
+          this.emit('sync', result);
+        },
+        (err: Error) => {
+          // Rescan the guest next time: a failed sync may have been partly applied
+          this.state.remote = undefined;
+          if (!this.closed) this.emitError(err);
+        },
+      )
+      .finally(() => {
+        this.running = undefined;
+        if (this.pending && !this.closed) {
+          this.pending = false;
+          this.run();
+        }
+      });
+  }
+}
+
+// ─── Manifests ───
+
+async function scanLocal(root: string, filter: PathFilter, previous?: Manifest): Promise<Manifest> {
+  const manifest: Manifest = new Map();
+
+  const walk = async (dir: string): Promise<void> => {
+    for (const name of await readdir(join(root, dir))) {
+      const path = dir ? `${dir}/${name}` : name;
+      if (filter.excludes(path)) continue;
+
+      const abs = join(root, path);
+      const st = await lstat(abs).catch(() => undefined); // Vanished mid-scan
+      if (!st) continue;
+      if (st.isDirectory()) {
+        await walk(path);
+      } else if (!filter.includes(path)) {
+        // Not selected
+      } else if (st.isSymbolicLink()) {
+        manifest.set(path, { type: 'symlink', executable: false, digest: await readlink(abs) });
+      } else if (st.isFile()) {
+        const executable = (st.mode & 0o111) !== 0;
+        const cached = previous?.get(path);
+        const digest =
+          cached?.type === 'file' && cached.size === st.size && cached.mtimeMs === st.mtimeMs
+            ? cached.digest
+            : await hashFile(abs);
+        manifest.set(path, {
+          type: 'file',
+          executable,
+          digest,
+          size: st.size,
+          mtimeMs: st.mtimeMs,
+        });
+      }
+    }
+  };
+
+  await walk('');
+  return manifest;
+}
+
+async function scanRemote(
+  vm: Vm,
+  remoteDir: string,
+  filter: PathFilter,
+  options?: SyncOptions,
+): Promise<Manifest> {
+  // Prune excluded names in the guest so large trees (node_modules, .git) are not hashed
+  const names = (options?.exclude ?? []).filter((p) => !p.includes('/'));
+  const prune = names.flatMap((name, i) => (i === 0 ? ['-name', name] : ['-o', '-name', name]));
+  const hashFiles = ['-type', 'f', '-exec', 'sh', '-c', HASH_FILES, 'sh', '{}', '+'];
+  const readLinks = ['-type', 'l', '-exec', 'sh', '-c', READ_LINKS, 'sh', '{}', '+'];
+  const findArgs = [
+    ...(prune.length > 0 ? ['(', ...prune, ')', '-prune', '-o'] : []),
+    '(',
+    ...hashFiles,
+    ')',
+    '-o',
+    '(',
+    ...readLinks,
+    ')',
+  ];
+
+  const cmd = vm.spawn(scriptCommand(SCRIPTS.manifest, remoteDir, findArgs), {
+    signal: options?.signal,
+  });
+  cmd.stdin.end();
+  const { exitCode, stdout, stderr } = await cmd.output();
+  if (exitCode !== 0) {
+    throw fsError('sync', remoteDir, exitCode, stderr);
+  }
+
+  const manifest: Manifest = new Map();
+  const fields = stdout.toString('utf8').split('\0');
+  for (let i = 0; i + 2 < fields.length; i += 3) {
+    const [kind, rawPath, value] = fields.slice(i, i + 3);
+    const path = rawPath.replace(/^\.\//, '');
+    if (filter.excludes(path) || !filter.includes(path)) continue;
+    if (kind === 'L') {
+      manifest.set(path, { type: 'symlink', executable: false, digest: value.replace(/\n$/, '') });
+    } else {
+      const [flag, digest = ''] = value.trim().split(/\s+/);
+      manifest.set(path, { type: 'file', executable: flag === 'x', digest });
+    }
+  }
+  return manifest;
+}
+
+function sameEntry(a: ManifestEntry, b: ManifestEntry): boolean {
+  return a.type === b.type && a.digest === b.digest && a.executable === b.executable;
+}
+
+async function hashFile(path: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(path)) hash.update(chunk);
+  return hash.digest('hex');
+}
+
+async function removeRemote(
+  vm: Vm,
+  remoteDir: string,
+  paths: string[],
+  signal?: AbortSignal,
+): Promise<void> {
+  const cmd = vm.spawn(scriptCommand(SCRIPTS.remove, remoteDir, []), { signal });
+  cmd.stdin.end(paths.map((p) => `./${p}\0`).join(''));
+  const { exitCode, stderr } = await cmd.output();
+  if (exitCode !== 0) {
+    throw fsError('sync', remoteDir, exitCode, stderr);
+  }
+}
+
+async function validateLocalDir(localDir: string): Promise<void> {
+  checkLocalDir(localDir, await stat(localDir).catch(() => undefined));
+}
+
+/** For VmSyncWatcher, which must check before fs.watch() fails with a raw ENOENT. */
+function validateLocalDirSync(localDir: string): void {
+  let st: Stats | undefined;
+  try {
+    st = statSync(localDir);
+  } catch {
+    // Reported below as not a directory
+  }
+  checkLocalDir(localDir, st);
+}
+
+function checkLocalDir(localDir: string, st: Stats | undefined): void {
+  if (!st?.isDirectory()) {
+    throw new NoidValidationError('localDir', `${localDir} is not a directory`);
+  }
+}
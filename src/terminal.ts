@@ -0,0 +1,186 @@
+import type { EventEmitter } from 'node:events';
+import type { Readable, Writable } from 'node:stream';
+import type { ReadStream, WriteStream } from 'node:tty';
+import { NoidValidationError } from './errors.js';
+import { abortError, onAbort, throwIfAborted } from './internal/abort.js';
+import type { AttachOptions, AttachResult } from './types.js';
+
+const DEFAULT_ESCAPE_CHAR = '~';
+const CR = 0x0d;
+const LF = 0x0a;
+const DOT = 0x2e;
+
+/** What attachTerminal() needs from a VmConsole or a tty VmCommand. */
+export interface TerminalSession extends EventEmitter {
+  readonly stdin: Writable;
+  readonly stdout: Readable;
+  resize(cols: number, rows: number): void;
+}
+
+export interface TerminalHooks {
+  /** Connect the session, if it has not been started yet */
+  start?: () => Promise<void>;
+  /** Called once the session's output has ended; resolves with its exit code, if any */
+  ended: () => Promise<number | undefined>;
+}
+
+/**
+ * Wire a session to the local terminal: raw mode, input and output, window size.
+ * Terminal state is restored however this ends: session end, detach, abort or error.
+ */
+export function attachTerminal(
+  session: TerminalSession,
+  hooks: TerminalHooks,
+  options?: AttachOptions,
+): Promise<AttachResult> {
+  throwIfAborted(options?.signal, 'Terminal attach');
+  const escapeCode = escapeByte(options?.escapeChar);
+  const input: Readable = options?.stdin ?? process.stdin;
+  const output: Writable = options?.stdout ?? process.stdout;
+  const ttyInput = isTtyInput(input) ? input : undefined;
+  const ttyOutput = isTtyOutput(output) ? output : undefined;
+
+  return new Promise<AttachResult>((resolve, reject) => {
+    const cleanups: (() => void)[] = [];
+    let done = false;
+
+    const finish = (err: Error | null, result?: AttachResult) => {
+      if (done) return;
+      done = true;
+      for (const cleanup of cleanups.reverse()) {
+        try {
+          cleanup();
+        } catch {
+          // Keep restoring the rest
+        }
+      }
+      if (err) reject(err);
+      else resolve(result as AttachResult);
+    };
+
+    try {
+      // Raw mode first, and the restore hook with it, so nothing below can leave it on
+      if (ttyInput) {
+        const wasRaw = ttyInput.isRaw;
+        const restore = () => ttyInput.setRawMode(wasRaw);
+        ttyInput.setRawMode(true);
+        process.once('exit', restore);
+        cleanups.push(() => {
+          process.removeListener('exit', restore);
+          restore();
+        });
+      }
+
+      const wasFlowing = input.readableFlowing === true;
+      const filter = escapeCode === null ? undefined : new EscapeFilter(escapeCode);
+      const onInput = (chunk: Buffer | string) => {
+        const data = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+        if (!filter) {
+          session.stdin.write(data);
+          return;
+        }
+        const { forward, detach } = filter.push(data);
+        if (forward.length > 0) session.stdin.write(forward);
+        if (detach) finish(null, { reason: 'detached' });
+      };
+      const onInputEnd = () => session.stdin.end();
+      input.on('data', onInput);
+      input.once('end', onInputEnd);
+      input.resume();
+      cleanups.push(() => {
+        input.removeListener('data', onInput);
+        input.removeListener('end', onInputEnd);
+        if (!wasFlowing) input.pause();
+      });
+
+      const onOutput = (chunk: Buffer) => output.write(chunk);
+      const onEnd = () => {
+        hooks.ended().then(
+          (exitCode) => finish(null, { reason: 'ended', exitCode }),
+          (err: Error) => finish(err),
+        );
+      };
+      const onError = (err: Error) => finish(err);
+      session.stdout.on('data', onOutput);
+      session.stdout.once('end', onEnd);
+      session.on('error', onError);
+      session.stdout.resume();
+      cleanups.push(() => {
+        session.stdout.removeListener('data', onOutput);
+        session.stdout.removeListener('end', onEnd);
+        session.removeListener('error', onError);
+        // While detached, let output back up instead of discarding it
+        if (!session.stdout.readableEnded) session.stdout.pause();
+      });
+
+      if (ttyOutput) {
+        const onResize = () => {
+          if (ttyOutput.columns > 0 && ttyOutput.rows > 0) {
+            session.resize(ttyOutput.columns, ttyOutput.rows);
+          }
+        };
+        onResize();
+        ttyOutput.on('resize', onResize);
+        cleanups.push(() => ttyOutput.removeListener('resize', onResize));
+      }
+
+      const detachAbort = onAbort(options?.signal, () =>
+        finish(abortError(options?.signal as AbortSignal, 'Terminal attach')),
+      );
+      cleanups.push(detachAbort);
+
+      if (session.stdout.readableEnded) onEnd();
+      hooks.start?.().catch((err: Error) => finish(err));
+    } catch (err) {
+      finish(err as Error);
+    }
+  });
+}
+
+/**
+ * Detects SSH-style escapes in typed input: the escape character as the first
+ * byte of a line, then '.' to detach. Typing the escape character twice sends it once.
+ */
+class EscapeFilter {
+  private readonly escape: number;
+  private atLineStart = true;
+  private pending = false;
+
+  constructor(escapeCode: number) {
+    this.escape = escapeCode;
+  }
+
+  push(chunk: Buffer): { forward: Buffer; detach: boolean } {
+    const forward: number[] = [];
+    for (const byte of chunk) {
+      if (this.pending) {
+        this.pending = false;
+        if (byte === DOT) return { forward: Buffer.from(forward), detach: true };
+        if (byte !== this.escape) forward.push(this.escape);
+      } else if (this.atLineStart && byte === this.escape) {
+        this.pending = true;
+        continue;
+      }
+      forward.push(byte);
+      this.atLineStart = byte === CR || byte === LF;
+    }
+    return { forward: Buffer.from(forward), detach: false };
+  }
+}
+
+function escapeByte(escapeChar: string | null | undefined): number | null {
+  if (escapeChar === null) return null;
+  const char = escapeChar ?? DEFAULT_ESCAPE_CHAR;
+  if (char.length !== 1 || char.charCodeAt(0) > 0x7f) {
+    throw new NoidValidationError('escapeChar', 'Must be a single ASCII character or null');
+  }
+  return char.charCodeAt(0);
+}
+
+function isTtyInput(stream: Readable): stream is ReadStream {
+  return (stream as ReadStream).isTTY === true && 'setRawMode' in stream;
+}
+
+function isTtyOutput(stream: Writable): stream is WriteStream {
+  return (stream as WriteStream).isTTY === true;
+}
@@ -0,0 +1,461 @@
+import { createReadStream, createWriteStream, type Stats } from 'node:fs';
+import {
+  chmod,
+  lstat,
+  mkdir,
+  readdir,
+  readlink,
+  rm,
+  stat,
+  symlink,
+  utimes,
+} from 'node:fs/promises';
+import { basename, dirname, join, posix, resolve } from 'node:path';
+import { Readable, type Writable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { NoidFilesystemError, NoidValidationError } from './errors.js';
+import { fsError, scriptCommand, validatePath } from './fs.js';
+import { compileGlobs, type PathMatcher } from './internal/glob.js';
+import {
+  encodeHeader,
+  endOfArchive,
+  padding,
+  readTar,
+  type TarEntry,
+  TarFormatError,
+  type TarHeader,
+} from './internal/tar.js';
+import type { TransferOptions, TransferProgress, TransferResult } from './types.js';
+import type { Vm } from './vm.js';
+
+// Same conventions as fs.ts: `sh -c <script> sh <path> [args...]`, errno-style exit codes.
+// `-o` keeps extracted files owned by the guest user (GNU: --no-same-owner; busybox: same).
+const SCRIPTS = {
+  uploadDir:
+    '[ -e "$1" ] && [ ! -d "$1" ] && exit 71; mkdir -p -- "$1" || exit 73; ' +
+    'cd -- "$1" || exit 73; exec tar -x -o -f -',
+  uploadFile:
+    '[ -d "$1/$2" ] && exit 72; [ -e "$1" ] && [ ! -d "$1" ] && exit 71; ' +
+    'mkdir -p -- "$1" || exit 73; cd -- "$1" || exit 73; exec tar -x -o -f -',
+  download:
+    '[ -e "$1" ] || [ -L "$1" ] || exit 70; ' +
+    'if [ -d "$1" ]; then cd -- "$1" || exit 73; exec tar -c -f - .; fi; ' +
+    'cd -- "$(dirname -- "$1")" || exit 73; exec tar -c -f - "./$(basename -- "$1")"',
+} as const;
+
+/** Upload a local file or directory, or a tar stream, into the guest. See Vm.upload(). */
+export async function uploadToVm(
+  vm: Vm,
+  source: string | Readable,
+  remotePath: string,
+  options?: TransferOptions,
+): Promise<TransferResult> {
+  validatePath(remotePath);
+  const filter = new PathFilter(options);
+  const progress = new ProgressTracker(options?.onProgress);
+
+  let archive: AsyncIterable<Buffer>;
+  let command: string[];
+  if (source instanceof Readable) {
+    archive = repack(readTar(source), filter, progress);
+    command = scriptCommand(SCRIPTS.uploadDir, remotePath, []);
+  } else {
+    const st = await statSource(source);
+    if (st.isDirectory()) {
+      archive = packDirectory(source, filter, progress);
+      command = scriptCommand(SCRIPTS.uploadDir, remotePath, []);
+    } else {
+      // A trailing slash means "into this directory", like cp
+      const intoDir = remotePath.endsWith('/');
+      const name = intoDir ? basename(source) : posix.basename(remotePath);
+      const dir = intoDir ? remotePath : posix.dirname(remotePath);
+      archive = packFile(source, st, name, filter, progress);
+      command = scriptCommand(SCRIPTS.uploadFile, dir, [name]);
+    }
+  }
+
+  await sendArchive(vm, command, archive, remotePath, options?.signal);
+  return progress.result();
+}
+
+/** Extract `archive` into the guest directory `remoteDir`, creating it if missing. */
+export function extractInGuest(
+  vm: Vm,
+  remoteDir: string,
+  archive: AsyncIterable<Buffer>,
+  signal?: AbortSignal,
+): Promise<void> {
+  const command = scriptCommand(SCRIPTS.uploadDir, remoteDir, []);
+  return sendArchive(vm, command, archive, remoteDir, signal);
+}
+
+async function sendArchive(
+  vm: Vm,
+  command: string[],
+  archive: AsyncIterable<Buffer>,
+  remotePath: string,
+  signal?: AbortSignal,
+): Promise<void> {
+  const cmd = vm.spawn(command, { signal });
+  const feeding = pipeline(Readable.from(archive), cmd.stdin).catch((err: Error) => {
+    cmd.kill();
+    throw err instanceof TarFormatError
+      ? new NoidValidationError('source', `Invalid tar archive: ${err.message}`)
+      : err;
+  });
+
+  const [{ exitCode, stderr }] = await Promise.all([cmd.output(), feeding]);
+  if (exitCode !== 0) {
+    throw fsError('upload', remotePath, exitCode, stderr);
+  }
+}
+
+/** Download a guest file or directory to a local path, or as a tar stream. See Vm.download(). */
+export async function downloadFromVm(
+  vm: Vm,
+  remotePath: string,
+  target: string | Writable,
+  options?: TransferOptions,
+): Promise<TransferResult> {
+  validatePath(remotePath);
+  const filter = new PathFilter(options);
+  const progress = new ProgressTracker(options?.onProgress);
+
+  const cmd = vm.spawn(scriptCommand(SCRIPTS.download, remotePath, []), {
+    signal: options?.signal,
+  });
+  const stderr: Buffer[] = [];
+  cmd.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+  cmd.stdin.end();
+  await cmd.start();
+
+  const entries = readTar(cmd.stdout);
+  const receiving = (
+    typeof target === 'string'
+      ? extractArchive(entries, target, filter, progress)
+      : pipeline(Readable.from(repack(entries, filter, progress)), target)
+  ).catch((err: Error) => {
+    cmd.kill();
+    cmd.stdout.resume(); // Drain so the exit result is still received
+    throw err instanceof TarFormatError
+      ? new NoidFilesystemError('download', remotePath, 'EIO', err.message)
+      : err;
+  });
+
+  const [exit, received] = await Promise.allSettled([cmd.wait(), receiving]);
+  if (exit.status === 'rejected') throw exit.reason;
+  if (exit.value !== 0) {
+    throw fsError('download', remotePath, exit.value, Buffer.concat(stderr));
+  }
+  if (received.status === 'rejected') throw received.reason;
+  return progress.result();
+}
+
+// ─── Archive producers ───
+
+async function* packDirectory(
+  root: string,
+  filter: PathFilter,
+  progress: ProgressTracker,
+): AsyncGenerator<Buffer> {
+  yield* packTree(root, '', filter, progress);
+  yield endOfArchive();
+}
+
+async function* packTree(
+  root: string,
+  dir: string,
+  filter: PathFilter,
+  progress: ProgressTracker,
+): AsyncGenerator<Buffer> {
+  const names = (await readdir(join(root, dir))).sort();
+  for (const name of names) {
+    const path = dir ? `${dir}/${name}` : name;
+    if (filter.excludes(path)) {
+      progress.skip();
+      continue;
+    }
+
+    const abs = join(root, path);
+    const st = await lstat(abs);
+    if (st.isDirectory()) {
+      if (filter.includes(path)) {
+        yield encodeHeader({ path, type: 'directory', mode: st.mode, size: 0, mtime: st.mtime });
+      }
+      yield* packTree(root, path, filter, progress);
+    } else if (!filter.includes(path) || !(st.isFile() || st.isSymbolicLink())) {
+      progress.skip();
+    } else if (st.isSymbolicLink()) {
+      yield* packSymlink(abs, st, path, progress);
+    } else {
+      yield* packFileEntry(abs, st, path, progress);
+    }
+  }
+}
+
+/** Archive the given files and symlinks under `root`; paths that vanished are skipped. */
+export async function* packPaths(
+  root: string,
+  paths: readonly string[],
+  progress: ProgressTracker,
+): AsyncGenerator<Buffer> {
+  for (const path of paths) {
+    const abs = join(root, path);
+    const st = await lstat(abs).catch(() => undefined);
+    if (st?.isFile()) {
+      yield* packFileEntry(abs, st, path, progress);
+    } else if (st?.isSymbolicLink()) {
+      yield* packSymlink(abs, st, path, progress);
+    } else {
+      progress.skip();
+    }
+  }
+  yield endOfArchive();
+}
+
+async function* packFile(
+  source: string,
+  st: Stats,
+  name: string,
+  filter: PathFilter,
+  progress: ProgressTracker,
+): AsyncGenerator<Buffer> {
+  if (filter.excludes(name) || !filter.includes(name)) {
+    progress.skip();
+  } else {
+    yield* packFileEntry(source, st, name, progress);
+  }
+  yield endOfArchive();
+}
+
+async function* packFileEntry(
+  abs: string,
+  st: Stats,
+  path: string,
+  progress: ProgressTracker,
+): AsyncGenerator<Buffer> {
+  yield encodeHeader({ path, type: 'file', mode: st.mode, size: st.size, mtime: st.mtime });
+
+  // The header already promised st.size bytes: cut off growth, zero-fill shrinkage
+  let sent = 0;
+  if (st.size > 0) {
+    for await (const chunk of createReadStream(abs, { end: st.size - 1 })) {
+      sent += chunk.length;
+      progress.data(path, chunk.length);
+      yield chunk;
+    }
+  }
+  if (sent < st.size) yield Buffer.alloc(st.size - sent);
+  yield padding(st.size);
+  progress.entry(path);
+}
+
+async function* packSymlink(
+  abs: string,
+  st: Stats,
+  path: string,
+  progress: ProgressTracker,
+): AsyncGenerator<Buffer> {
+  const linkname = await readlink(abs);
+  yield encodeHeader({ path, type: 'symlink', mode: st.mode, size: 0, mtime: st.mtime, linkname });
+  progress.entry(path);
+}
+
+/** Re-encode a parsed archive, dropping filtered and unsupported entries. */
+async function* repack(
+  entries: AsyncIterable<TarEntry>,
+  filter: PathFilter,
+  progress: ProgressTracker,
+): AsyncGenerator<Buffer> {
+  for await (const { header, data } of entries) {
+    if (header.path === '.') continue;
+    if (!selected(header, filter)) {
+      progress.skip();
+      continue;
+    }
+    yield encodeHeader(header);
+    if (header.type === 'file') {
+      for await (const chunk of data) {
+        progress.data(header.path, chunk.length);
+        yield chunk;
+      }
+      yield padding(header.size);
+    }
+    progress.entry(header.path, header.type === 'directory');
+  }
+  yield endOfArchive();
+}
+
+// ─── Local extraction ───
+
+/**
+ * Write a downloaded archive under `target`.
+ * An archive rooted at '.' is a directory and its contents land in `target`;
+ * otherwise it holds a single entry written to `target` (or inside it, if it is a directory).
+ */
+async function extractArchive(
+  entries: AsyncIterable<TarEntry>,
+  target: string,
+  filter: PathFilter,
+  progress: ProgressTracker,
+): Promise<void> {
+  const root = resolve(target);
+  const symlinks = new Set<string>();
+  const dirs: TarHeader[] = [];
+  let single: boolean | undefined;
+
+  for await (const { header, data } of entries) {
+    if (single === undefined) {
+      single = !(header.path === '.' && header.type === 'directory');
+    }
+    if (header.path === '.') {
+      await mkdir(root, { recursive: true });
+      continue;
+    }
+    if (!selected(header, filter)) {
+      progress.skip();
+      continue;
+    }
+
+    const dest = single
+      ? await singleTarget(root, header.path)
+      : entryTarget(root, header.path, symlinks);
+    await mkdir(dirname(dest), { recursive: true });
+
+    switch (header.type) {
+      case 'directory':
+        await mkdir(dest, { recursive: true });
+        dirs.push({ ...header, path: dest });
+        continue;
+      case 'symlink':
+        await rm(dest, { force: true });
+        await symlink(header.linkname ?? '', dest);
+        symlinks.add(header.path);
+        break;
+      default: {
+        // Replace rather than write through an existing symlink
+        await rm(dest, { force: true });
+        const path = header.path;
+        await pipeline(
+          Readable.from(countData(data, path, progress)),
+          createWriteStream(dest, { mode: header.mode }),
+        );
+        await chmod(dest, header.mode);
+        await utimes(dest, header.mtime, header.mtime);
+      }
+    }
+    progress.entry(header.path);
+  }
+
+  // Deepest first, so restrictive modes do not block setting the others
+  for (const dir of dirs.reverse()) {
+    await chmod(dir.path, dir.mode);
+    await utimes(dir.path, dir.mtime, dir.mtime);
+  }
+}
+
+async function* countData(
+  data: AsyncIterable<Buffer>,
+  path: string,
+  progress: ProgressTracker,
+): AsyncGenerator<Buffer> {
+  for await (const chunk of data) {
+    progress.data(path, chunk.length);
+    yield chunk;
+  }
+}
+
+/** Resolve an entry under root, refusing paths that escape it via '..' or an extracted symlink. */
+function entryTarget(root: string, path: string, symlinks: Set<string>): string {
+  const parts = path.split('/');
+  if (parts.includes('..')) {
+    throw new NoidValidationError('path', `Archive entry escapes the target directory: ${path}`);
+  }
+  for (let i = 1; i < parts.length; i++) {
+    if (symlinks.has(parts.slice(0, i).join('/'))) {
+      throw new NoidValidationError('path', `Archive entry is beneath a symlink: ${path}`);
+    }
+  }
+  return join(root, ...parts);
+}
+
+async function singleTarget(target: string, name: string): Promise<string> {
+  const st = await stat(target).catch(() => undefined);
+  return st?.isDirectory() ? join(target, basename(name)) : target;
+}
+
+// ─── Filtering and progress ───
+
+function selected(header: TarHeader, filter: PathFilter): boolean {
+  return header.type !== 'other' && !filter.excludes(header.path) && filter.includes(header.path);
+}
+
+/** include/exclude globs; a match on any ancestor directory applies to its contents. */
+export class PathFilter {
+  private readonly include?: PathMatcher;
+  private readonly exclude?: PathMatcher;
+
+  constructor(options?: TransferOptions) {
+    if (options?.include?.length) this.include = compileGlobs(options.include);
+    if (options?.exclude?.length) this.exclude = compileGlobs(options.exclude);
+  }
+
+  includes(path: string): boolean {
+    return !this.include || matchesSelfOrAncestor(this.include, path);
+  }
+
+  excludes(path: string): boolean {
+    return !!this.exclude && matchesSelfOrAncestor(this.exclude, path);
+  }
+}
+
+function matchesSelfOrAncestor(matcher: PathMatcher, path: string): boolean {
+  for (let i = path.indexOf('/'); i !== -1; i = path.indexOf('/', i + 1)) {
+    if (matcher(path.slice(0, i))) return true;
+  }
+  return matcher(path);
+}
+
+export class ProgressTracker {
+  private readonly onProgress?: (progress: TransferProgress) => void;
+  private bytes = 0;
+  private files = 0;
+  private skipped = 0;
+
+  constructor(onProgress?: (progress: TransferProgress) => void) {
+    this.onProgress = onProgress;
+  }
+
+  data(path: string, length: number): void {
+    this.bytes += length;
+    this.onProgress?.({ bytes: this.bytes, files: this.files, path });
+  }
+
+  /** An entry finished; directories are reported but not counted. */
+  entry(path: string, isDirectory = false): void {
+    if (!isDirectory) this.files++;
+    this.onProgress?.({ bytes: this.bytes, files: this.files, path });
+  }
+
+  skip(): void {
+    this.skipped++;
+  }
+
+  result(): TransferResult {
+    return { bytes: this.bytes, files: this.files, skipped: this.skipped };
+  }
+}
+
+async function statSource(source: string): Promise<Stats> {
+  let st: Stats;
+  try {
+    st = await stat(source);
+  } catch (err) {
+    const code = (err as NodeJS.ErrnoException).code;
+    throw new NoidValidationError('source', `Cannot read ${source}: ${code ?? String(err)}`);
+  }
+  if (!st.isDirectory() && !st.isFile()) {
+    throw new NoidValidationError('source', `${source} is not a file or directory`);
+  }
+  return st;
+}
@@ -1,34 +1,137 @@
+import type { Readable, Writable } from 'node:stream';
+
 export interface NoidClientOptions {
   /** Server base URL (e.g., "https://noid.example.com") */
   baseUrl: string;
   /** Authentication token (format: noid_tok_...) */
   token: string;
-  /** Request timeout in milliseconds (default: 30_000) */
+  /** Request timeout in milliseconds, also applied to WebSocket handshakes (default: 30_000) */
   timeout?: number;
+  /**
+   * WebSocket keepalive ping interval in milliseconds. A connection whose pong does
+   * not arrive before the next ping is treated as dead (default: 30_000)
+   */
+  pingInterval?: number;
+  /** Retry policy for failed requests, or `false` to disable (default: enabled) */
+  retry?: RetryOptions | false;
+  /** Middleware to install, in order (same as calling `client.use()` for each) */
+  middleware?: NoidMiddleware[];
+  /**
+   * Destroy VMs this client created (and has not destroyed) on SIGINT, SIGTERM or
+   * `beforeExit` (default: false)
+   */
+  cleanupOnExit?: boolean;
+}
+
+export interface RetryOptions {
+  /** Total attempts including the first (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled on each attempt (default: 500) */
+  baseDelayMs?: number;
+  /** Upper bound for any single delay, including `Retry-After` (default: 10_000) */
+  maxDelayMs?: number;
+  /** Randomize each delay between 0 and the computed backoff (default: true) */
+  jitter?: boolean;
+}
+
+/** Where `fromConfig()` reads `url` / `token` from, plus any other client option. */
+export interface NoidConfigOptions extends Omit<NoidClientOptions, 'baseUrl' | 'token'> {
+  /**
+   * Path to a noid-cli config.toml. When omitted, `NOID_CONFIG` is used, then
+   * `~/.noid/config.toml`. An explicit path must exist; the default may be absent.
+   */
+  path?: string;
+  /** Named profile (`[profiles.<name>]` table). Defaults to `NOID_PROFILE`, then top-level keys. */
+  profile?: string;
+  /** Environment to read `NOID_*` variables from (default: process.env) */
+  env?: Record<string, string | undefined>;
+}
+
+// ─── Middleware ───
+
+/** An outgoing HTTP request as seen by middleware. Fields may be modified in place. */
+export interface NoidHttpRequest {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  /** Absolute URL */
+  url: string;
+  headers: Record<string, string>;
+  /** JSON body, serialized after the middleware chain runs */
+  body?: unknown;
+  /** 1-based attempt number when the request is being retried */
+  attempt: number;
+  signal?: AbortSignal;
+}
+
+/** A raw HTTP response, before error statuses are turned into NoidAPIError. */
+export interface NoidHttpResponse {
+  status: number;
+  headers: Headers;
+  /** Raw response text ('' for 204) */
+  text: string;
+}
+
+/** A WebSocket connection about to be opened. `url` and `headers` may be modified. */
+export interface NoidWebSocketRequest {
+  url: string;
+  headers: Record<string, string>;
+}
+
+export type NoidHttpNext = (req: NoidHttpRequest) => Promise<NoidHttpResponse>;
+
+/**
+ * Client extension point, registered with `client.use()`.
+ * Middleware run in registration order; the first registered is outermost.
+ */
+export interface NoidMiddleware {
+  /**
+   * Wrap each HTTP attempt. Call `next(req)` to continue the chain; throw to fail the request.
+   * Network failures reach here as NoidConnectionError thrown from `next`.
+   */
+  request?(req: NoidHttpRequest, next: NoidHttpNext): Promise<NoidHttpResponse>;
+  /** Called before each WebSocket (exec, console) connects. */
+  websocket?(req: NoidWebSocketRequest): void | Promise<void>;
+}
+
+/** Per-call cancellation. Aborting rejects the call with NoidAbortError. */
+export interface AbortOptions {
+  signal?: AbortSignal;
 }
 
+export type VmState = 'running' | 'paused' | 'stopped' | 'unknown';
+
 export interface VmInfo {
   name: string;
-  state: 'running' | 'paused' | 'stopped' | 'unknown';
+  state: VmState;
   cpus: number;
   mem_mib: number;
   created_at: string;
 }
 
-export interface CreateVmOptions {
+export interface CreateVmOptions extends AbortOptions {
   /** Number of vCPUs (default: 1) */
   cpus?: number;
   /** Memory in MiB (default: 2048) */
   memMib?: number;
+  /** Retry on transient failure. Off by default since creation is not idempotent. */
+  retry?: boolean;
+}
+
+export interface EphemeralVmOptions extends CreateVmOptions {
+  /** The VM is named `<namePrefix>-<random hex>` (default: 'ephemeral') */
+  namePrefix?: string;
 }
 
-export interface ExecOptions {
+export interface ExecOptions extends AbortOptions {
   /** Environment variables to inject */
   env?: EnvVars;
   /** Request TTY allocation */
   tty?: boolean;
   /** Timeout in seconds (server-enforced, default from capabilities) */
   timeout?: number;
+  /** Reject with NoidExecError on non-zero exit or timeout instead of resolving */
+  check?: boolean;
+  /** Retry on transient failure. Off by default since the command may have run. */
+  retry?: boolean;
 }
 
 export interface ExecResult {
@@ -38,7 +141,7 @@ export interface ExecResult {
   truncated: boolean;
 }
 
-export interface SpawnOptions {
+export interface SpawnOptions extends AbortOptions {
   /** Environment variables to inject */
   env?: EnvVars;
   /** Request TTY allocation */
@@ -46,18 +149,323 @@ export interface SpawnOptions {
   /** TTY dimensions */
   rows?: number;
   cols?: number;
+  /**
+   * Timeout in seconds, enforced client-side. On expiry the command is killed
+   * and `wait()` resolves with 124 (as for server-side `timed_out`).
+   */
+  timeout?: number;
+  /**
+   * Reject `wait()` (and `output()`, iteration, `lines()`, `vm.run()`) with NoidExecError on
+   * non-zero exit, timeout or kill instead of resolving
+   */
+  check?: boolean;
+}
+
+export interface RunOptions extends SpawnOptions {
+  /** Written to the command's stdin, which is then closed (default: stdin closed empty) */
+  input?: string | Uint8Array;
+  /** Keep at most this many bytes of each of stdout and stderr; the rest is discarded */
+  maxOutputBytes?: number;
+  /** Decode output with this encoding, or 'buffer' to keep raw bytes (default: 'utf8') */
+  encoding?: BufferEncoding | 'buffer';
+}
+
+/** Result of `vm.run()`: complete stdout and stderr plus exit status. */
+export interface RunResult<T extends string | Buffer = string> {
+  stdout: T;
+  stderr: T;
+  exitCode: number;
+  timedOut: boolean;
+  /** True only if `maxOutputBytes` was exceeded */
+  truncated: boolean;
+}
+
+export interface ShellOptions {
+  /** Shell run with `-c <script>` (default: 'sh') */
+  shell?: string;
+  /** Directory to `cd` into first; if that fails the script exits 1 without running */
+  cwd?: string;
+}
+
+/** Options for `vm.sh(options)`. Output is always decoded to strings. */
+export interface ShellRunOptions extends RunOptions, ShellOptions {
+  encoding?: BufferEncoding;
+}
+
+/** Options for `vm.spawnSh(options)`. */
+export interface ShellSpawnOptions extends SpawnOptions, ShellOptions {}
+
+/** Signals that can be sent to a spawned command. */
+export type CommandSignal =
+  | 'SIGHUP'
+  | 'SIGINT'
+  | 'SIGQUIT'
+  | 'SIGKILL'
+  | 'SIGTERM'
+  | 'SIGUSR1'
+  | 'SIGUSR2';
+
+/** An event yielded by `for await (const event of cmd)`. */
+export type CommandEvent =
+  | { type: 'stdout'; data: Buffer }
+  | { type: 'stderr'; data: Buffer }
+  | { type: 'exit'; code: number; status: ExitStatus };
+
+/** Everything a command produced, from `cmd.output()`. */
+export interface CommandOutput {
+  stdout: Buffer;
+  stderr: Buffer;
+  exitCode: number;
+  status: ExitStatus;
+}
+
+/** How a spawned command finished. Only available once `wait()` has resolved. */
+export interface ExitStatus {
+  /** Exit code: the process's own, 124 on timeout, or 128 + signal number when killed */
+  code: number;
+  /** True if the server or the spawn `timeout` timed the command out */
+  timedOut: boolean;
+  /**
+   * The signal passed to `kill()`, SIGTERM when the spawn `timeout` expired, or null if
+   * the process exited on its own
+   */
+  signal: CommandSignal | null;
+  /**
+   * Whether `signal` reached the process. False when the server could not deliver it
+   * and the session was only closed, which the server is assumed to treat as a kill.
+   */
+  signalDelivered: boolean;
 }
 
 /** Environment variables as key-value object */
 export type EnvVars = Record<string, string>;
 
-export interface ConsoleOptions {
-  /** Environment variables to inject */
+export interface ConsoleOptions extends AbortOptions {
+  /**
+   * Environment variables to set in the console's shell. Values are passed through a
+   * private guest file (readable by the exec user only), never typed into the console
+   */
   env?: EnvVars;
+  /** Syntax for `env`: 'posix' for sh, bash, zsh, dash or ash, or 'fish' (default: 'posix') */
+  envShell?: 'posix' | 'fish';
+  /** Milliseconds to wait for the shell to confirm `env` was set (default: 10000) */
+  envTimeout?: number;
   /** TTY rows (default: 24) */
   rows?: number;
   /** TTY cols (default: 80) */
   cols?: number;
+  /** Characters of recent output kept for expect(), ANSI escapes removed (default: 65536) */
+  bufferSize?: number;
+  /** Bytes of recent raw output kept for scrollback() and replay() (default: 65536) */
+  scrollback?: number;
+  /**
+   * Reconnect with backoff when the connection drops after start(); `true` uses the
+   * defaults (maxAttempts 10, Infinity to never give up; baseDelayMs 500; maxDelayMs 30_000)
+   */
+  reconnect?: boolean | RetryOptions;
+}
+
+export interface RecordOptions extends AbortOptions {
+  /** Also record input sent to the session (default: false) */
+  input?: boolean;
+  /** Values to replace in recorded output and input; more can be added with redact() */
+  secrets?: string[];
+  /** Replacement for redacted values (default: '********') */
+  redaction?: string;
+  /** Recording title (header metadata) */
+  title?: string;
+  /** Environment to note in the header, e.g. `{ SHELL: '/bin/bash', TERM: 'xterm-256color' }` */
+  env?: Record<string, string>;
+}
+
+export interface PlayOptions extends AbortOptions {
+  /** Where to write the replayed output (default: process.stdout) */
+  output?: Writable;
+  /** Playback speed multiplier; `Infinity` replays without pauses (default: 1) */
+  speed?: number;
+  /** Longest pause in recording time, in seconds (default: the header's `idle_time_limit`) */
+  maxIdle?: number;
+}
+
+/** How the WebSocket under a command or console closed. */
+export interface ConnectionCloseInfo {
+  /** WebSocket close code, e.g. 1000 (normal) or 1006 (dropped without a close frame) */
+  code: number;
+  /** Close reason sent by the server ('' if none) */
+  reason: string;
+  /** Set when the client gave up on the connection, e.g. after a missed pong */
+  error?: Error;
+}
+
+/** Passed with a console's 'open' event. */
+export interface ConsoleOpenInfo {
+  /** Names of the injected environment variables, confirmed set by the shell */
+  env: string[];
+}
+
+/** Text to wait for in console output: a substring or a regular expression. */
+export type ExpectPattern = string | RegExp;
+
+export interface ExpectOptions extends AbortOptions {
+  /** Milliseconds to wait before rejecting with NoidTimeoutError; 0 waits indefinitely (default: 30000) */
+  timeout?: number;
+}
+
+/** Where a pattern matched in console output. */
+export interface ExpectMatch {
+  /** Index of the pattern that matched (always 0 for expect()) */
+  index: number;
+  /** The matched text */
+  match: string;
+  /** Capture groups, in order (empty for string patterns) */
+  groups: (string | undefined)[];
+  /** Named capture groups */
+  namedGroups: Record<string, string | undefined>;
+  /** Output between the previous match (or the start of the buffer) and this one */
+  before: string;
+}
+
+export interface AttachOptions extends AbortOptions {
+  /** Input stream (default: process.stdin, switched to raw mode while attached if it is a TTY) */
+  stdin?: Readable;
+  /** Output stream (default: process.stdout; its size is forwarded if it is a TTY) */
+  stdout?: Writable;
+  /**
+   * Detach escape character: typed at the start of a line and followed by '.', it
+   * detaches; typed twice it sends itself once. `null` disables escapes (default: '~')
+   */
+  escapeChar?: string | null;
+}
+
+/** How attachToTerminal() finished. */
+export interface AttachResult {
+  /** 'detached' via the escape sequence, or 'ended' when the session finished */
+  reason: 'detached' | 'ended';
+  /** Exit code, for a command that ended */
+  exitCode?: number;
+}
+
+// ─── Guest Filesystem ───
+
+export type VmFileType = 'file' | 'directory' | 'symlink' | 'other';
+
+/** Result of `vm.fs.stat()` / `vm.fs.lstat()` */
+export interface VmFileStat {
+  type: VmFileType;
+  /** Permission bits, e.g. 0o644 */
+  mode: number;
+  size: number;
+  uid: number;
+  gid: number;
+  atime: Date;
+  mtime: Date;
+  ctime: Date;
+}
+
+export interface ReadFileOptions extends AbortOptions {
+  /** Decode with this encoding; omit to get a Buffer */
+  encoding?: BufferEncoding;
+}
+
+export interface WriteFileOptions extends AbortOptions {
+  /** Permission bits applied after writing, e.g. 0o600 */
+  mode?: number;
+}
+
+export interface MkdirOptions extends AbortOptions {
+  /** Create missing parents and succeed if the directory exists (`mkdir -p`) */
+  recursive?: boolean;
+  /** Permission bits for the new directory */
+  mode?: number;
+}
+
+export interface RmOptions extends AbortOptions {
+  /** Remove directories and their contents */
+  recursive?: boolean;
+  /** Succeed if the path does not exist */
+  force?: boolean;
+}
+
+export interface TransferOptions extends AbortOptions {
+  /**
+   * Only transfer paths matching one of these globs. A pattern without '/' matches
+   * names at any depth; a matching directory includes everything under it.
+   */
+  include?: string[];
+  /** Skip paths matching any of these globs, and everything under matching directories */
+  exclude?: string[];
+  /** Called as file data moves and after each entry is transferred */
+  onProgress?: (progress: TransferProgress) => void;
+}
+
+export interface TransferProgress {
+  /** File content bytes transferred so far */
+  bytes: number;
+  /** Files and symlinks transferred so far */
+  files: number;
+  /** Entry being transferred, relative to the transfer root */
+  path: string;
+}
+
+export interface TransferResult {
+  /** File content bytes transferred */
+  bytes: number;
+  /** Files and symlinks transferred */
+  files: number;
+  /** Entries left out by include/exclude or because their type is unsupported */
+  skipped: number;
+}
+
+export interface SyncOptions extends TransferOptions {
+  /** Delete guest files that no longer exist locally (excluded paths are never deleted) */
+  delete?: boolean;
+  /** Compare and report without changing the guest */
+  dryRun?: boolean;
+}
+
+export interface WatchSyncOptions extends SyncOptions {
+  /** Quiet period after a local change before syncing, in ms (default: 100) */
+  debounceMs?: number;
+}
+
+export interface SyncResult {
+  /** Paths uploaded that did not exist in the guest */
+  added: string[];
+  /** Paths uploaded because their content, link target or executable bit differed */
+  changed: string[];
+  /** Guest paths removed (only with `delete`) */
+  deleted: string[];
+  /** Number of paths already up to date */
+  unchanged: number;
+  /** File content bytes uploaded */
+  bytes: number;
+  /** True if nothing was changed because `dryRun` was set */
+  dryRun: boolean;
+}
+
+// ─── Port forwarding ───
+
+export interface ForwardOptions extends AbortOptions {
+  /** Port inside the VM to connect to */
+  remotePort: number;
+  /** Host to connect to from inside the VM (default: '127.0.0.1') */
+  remoteHost?: string;
+  /** Local port to listen on (default: 0, any free port) */
+  localPort?: number;
+  /** Local address to listen on (default: '127.0.0.1') */
+  localHost?: string;
+}
+
+/** One client connection through a port forward. */
+export interface ForwardedConnection {
+  /** Sequential id within the forward, starting at 1 */
+  id: number;
+  clientAddress?: string;
+  clientPort?: number;
+  /** Bytes sent from the client to the VM (final once the connection closes) */
+  bytesSent: number;
+  /** Bytes sent from the VM to the client (final once the connection closes) */
+  bytesReceived: number;
 }
 
 export interface CheckpointInfo {
@@ -67,14 +475,72 @@ export interface CheckpointInfo {
   created_at: string;
 }
 
-export interface CreateCheckpointOptions {
+export interface VmActionOptions extends AbortOptions {
+  /** Retry on transient failure. Off by default, like other state-changing calls. */
+  retry?: boolean;
+}
+
+export interface WaitForStateOptions extends AbortOptions {
+  /** Milliseconds to wait before rejecting with NoidTimeoutError (default: 60_000) */
+  timeout?: number;
+  /** Milliseconds between checks (default: 1000) */
+  pollInterval?: number;
+}
+
+export interface WaitUntilReadyOptions extends WaitForStateOptions {
+  /** Command that must exit 0 for the guest to count as ready (default: ['true']) */
+  probe?: string[];
+}
+
+export interface CreateCheckpointOptions extends AbortOptions {
   /** Human-readable label */
   label?: string;
+  /** Retry on transient failure. Off by default since creation is not idempotent. */
+  retry?: boolean;
+}
+
+/**
+ * A checkpoint to restore: its id, a CheckpointInfo, or `{ label }` for the
+ * newest checkpoint with that label.
+ */
+export type CheckpointRef = string | { id: string } | { label: string };
+
+export interface PruneCheckpointsOptions extends AbortOptions {
+  /** Keep the newest N matching checkpoints */
+  keepLast?: number;
+  /** Only delete checkpoints created before this date, or more than this many ms ago */
+  olderThan?: Date | number;
+  /** Only consider checkpoints whose label matches (unlabelled checkpoints never match) */
+  labelPattern?: RegExp;
+  /** Report what would be deleted without deleting anything */
+  dryRun?: boolean;
 }
 
-export interface RestoreOptions {
+export interface PruneCheckpointsResult {
+  /** Checkpoints removed (or that would be, with `dryRun`), oldest first */
+  deleted: CheckpointInfo[];
+  /** Matching checkpoints left in place, oldest first */
+  kept: CheckpointInfo[];
+  /** Checkpoints whose deletion failed; the rest were still attempted */
+  failed: { checkpoint: CheckpointInfo; error: Error }[];
+  /** True if nothing was deleted because `dryRun` was set */
+  dryRun: boolean;
+}
+
+export interface RestoreOptions extends AbortOptions {
   /** Name for the restored VM (default: overwrites original) */
   newName?: string;
+  /** Retry on transient failure. Off by default since restore is not idempotent. */
+  retry?: boolean;
+}
+
+export interface ForkOptions extends AbortOptions {
+  /** Clone names are `<namePrefix>-<run id>-<n>` (default: this VM's name) */
+  namePrefix?: string;
+  /** Label for the checkpoint the clones are restored from (default: `fork-<run id>`) */
+  label?: string;
+  /** Maximum restores in flight at once (default: 4) */
+  concurrency?: number;
 }
 
 export interface VersionInfo {
@@ -102,4 +568,11 @@ export interface Capabilities {
     cpus: number;
     mem_mib: number;
   };
+  /** Optional protocol features. Absent on servers that predate feature reporting. */
+  features?: {
+    /** Server applies CHANNEL_RESIZE frames to the guest TTY */
+    tty_resize?: boolean;
+    /** Server delivers `{"signal": name}` text frames to the exec process */
+    signals?: boolean;
+  };
 }
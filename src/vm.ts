@@ -1,22 +1,74 @@
+import { randomBytes } from 'node:crypto';
+import type { Readable, Writable } from 'node:stream';
+import { finished } from 'node:stream/promises';
 import type { NoidClient } from './client.js';
 import { VmConsole } from './console.js';
+import {
+  NoidAbortError,
+  NoidAPIError,
+  NoidConnectionError,
+  NoidError,
+  NoidExecError,
+  NoidValidationError,
+} from './errors.js';
 import { VmCommand } from './exec.js';
-import { validateEnvVars } from './internal/validation.js';
+import { VmPortForward } from './forward.js';
+import { VmFilesystem } from './fs.js';
+import { withoutState } from './internal/expect.js';
+import { poll } from './internal/poll.js';
+import {
+  validateEnvVars,
+  validatePort,
+  validateTtySize,
+  validateVmName,
+} from './internal/validation.js';
+import { buildShellScript, isTemplateStrings, quoteShellArg, type ShellValue } from './shell.js';
+import { syncToVm, VmSyncWatcher } from './sync.js';
+import { downloadFromVm, uploadToVm } from './transfer.js';
 import type {
+  AbortOptions,
   CheckpointInfo,
+  CheckpointRef,
   ConsoleOptions,
   CreateCheckpointOptions,
   EnvVars,
   ExecOptions,
   ExecResult,
+  ExitStatus,
+  ForkOptions,
+  ForwardOptions,
+  PruneCheckpointsOptions,
+  PruneCheckpointsResult,
   RestoreOptions,
+  RunOptions,
+  RunResult,
+  ShellOptions,
+  ShellRunOptions,
+  ShellSpawnOptions,
   SpawnOptions,
+  SyncOptions,
+  SyncResult,
+  TransferOptions,
+  TransferResult,
+  VmActionOptions,
   VmInfo,
+  VmState,
+  WaitForStateOptions,
+  WaitUntilReadyOptions,
+  WatchSyncOptions,
 } from './types.js';
 
+/** Defaults for waitForState() and waitUntilReady(). */
+const DEFAULT_WAIT_TIMEOUT_MS = 60_000;
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+/** Restores fork() runs at once by default. */
+const DEFAULT_FORK_CONCURRENCY = 4;
+
 export class Vm {
   readonly name: string;
   readonly client: NoidClient;
+  /** Guest filesystem operations (run over streaming exec) */
+  readonly fs: VmFilesystem;
 
   // biome-ignore lint/correctness/noUnusedPrivateClassMembers: cached for future use
   private _info?: VmInfo;
@@ -24,6 +76,7 @@ export class Vm {
   constructor(name: string, client: NoidClient) {
     this.name = name;
     this.client = client;
+    this.fs = new VmFilesystem(this);
   }
 
   /** @internal Update cached info */
@@ -32,15 +85,119 @@ export class Vm {
   }
 
   /** Fetch current VM info from server. */
-  async info(): Promise<VmInfo> {
-    const info = await this.client.fetch<VmInfo>('GET', `/v1/vms/${encodeURIComponent(this.name)}`);
+  async info(options?: AbortOptions): Promise<VmInfo> {
+    const info = await this.client.fetch<VmInfo>(
+      'GET',
+      `/v1/vms/${encodeURIComponent(this.name)}`,
+      undefined,
+      { signal: options?.signal },
+    );
     this._info = info;
     return info;
   }
 
   /** Destroy this VM. */
-  async destroy(): Promise<void> {
-    await this.client.fetch<void>('DELETE', `/v1/vms/${encodeURIComponent(this.name)}`);
+  async destroy(options?: AbortOptions): Promise<void> {
+    await this.client.destroyVm(this.name, options);
+  }
+
+  /** Destroy this VM unless it is already gone, for `await using vm = await client.createVm(...)`. */
+  async [Symbol.asyncDispose](): Promise<void> {
+    try {
+      await this.destroy();
+    } catch (err) {
+      if (!(err instanceof NoidAPIError && err.isNotFound())) throw err;
+    }
+  }
+
+  // ─── Lifecycle ───
+
+  /** Start a stopped VM. Resolves with the server's view of the VM once it accepts the request. */
+  start(options?: VmActionOptions): Promise<VmInfo> {
+    return this.action('start', options);
+  }
+
+  /** Stop the VM. Use waitForState('stopped') to wait for it to finish shutting down. */
+  stop(options?: VmActionOptions): Promise<VmInfo> {
+    return this.action('stop', options);
+  }
+
+  /** Pause the VM (its vCPUs stop; memory is kept). */
+  pause(options?: VmActionOptions): Promise<VmInfo> {
+    return this.action('pause', options);
+  }
+
+  /** Resume a paused VM. */
+  resume(options?: VmActionOptions): Promise<VmInfo> {
+    return this.action('resume', options);
+  }
+
+  /**
+   * Poll info() until the VM is in `state` (or any of several states).
+   * Rejects with NoidTimeoutError after `timeout`, or NoidAPIError if the VM disappears.
+   */
+  async waitForState(state: VmState | VmState[], options?: WaitForStateOptions): Promise<VmInfo> {
+    const states = Array.isArray(state) ? state : [state];
+    const timeoutMs = options?.timeout ?? DEFAULT_WAIT_TIMEOUT_MS;
+    let last: VmState | undefined;
+    return poll(
+      async (signal) => {
+        const info = await this.info({ signal });
+        last = info.state;
+        return states.includes(info.state) ? info : undefined;
+      },
+      {
+        timeoutMs,
+        intervalMs: options?.pollInterval ?? DEFAULT_POLL_INTERVAL_MS,
+        signal: options?.signal,
+      },
+      () =>
+        `VM '${this.name}' did not reach state ${states.map((s) => `'${s}'`).join(' or ')} ` +
+        `within ${timeoutMs}ms (last state: ${last ? `'${last}'` : 'unknown'})`,
+    );
+  }
+
+  /**
+   * Wait until the guest accepts commands: run `probe` (default `true`) over HTTP
+   * exec until it exits 0, e.g. right after createVm() or restore(). Connection
+   * errors, 409 and 5xx responses count as not ready yet; other API errors (401,
+   * 404, ...) reject at once. Rejects with NoidTimeoutError after `timeout`.
+   */
+  async waitUntilReady(options?: WaitUntilReadyOptions): Promise<void> {
+    const probe = options?.probe ?? ['true'];
+    const timeoutMs = options?.timeout ?? DEFAULT_WAIT_TIMEOUT_MS;
+    let lastFailure = 'none completed';
+    await poll(
+      async (signal) => {
+        try {
+          const result = await this.exec(probe, { signal });
+          if (!result.timed_out && result.exit_code === 0) return true;
+          lastFailure = result.timed_out ? 'timed out' : `exit code ${result.exit_code}`;
+        } catch (err) {
+          if (!isTransientProbeError(err)) throw err;
+          lastFailure = err.message;
+        }
+        return undefined;
+      },
+      {
+        timeoutMs,
+        intervalMs: options?.pollInterval ?? DEFAULT_POLL_INTERVAL_MS,
+        signal: options?.signal,
+      },
+      () => `VM '${this.name}' was not ready within ${timeoutMs}ms (last probe: ${lastFailure})`,
+    );
+  }
+
+  private async action(action: string, options?: VmActionOptions): Promise<VmInfo> {
+    const info = await this.client.fetch<VmInfo | undefined>(
+      'POST',
+      `/v1/vms/${encodeURIComponent(this.name)}/${action}`,
+      undefined,
+      { retry: options?.retry, signal: options?.signal },
+    );
+    if (!info) return this.info({ signal: options?.signal }); // 204 No Content
+    this._info = info;
+    return info;
   }
 
   /**
@@ -57,11 +214,59 @@ export class Vm {
       env: env ?? [],
     };
 
-    return this.client.fetch<ExecResult>(
+    const result = await this.client.fetch<ExecResult>(
       'POST',
       `/v1/vms/${encodeURIComponent(this.name)}/exec`,
       body,
+      { retry: options?.retry, signal: options?.signal },
     );
+
+    if (options?.check && (result.timed_out || result.exit_code !== 0)) {
+      throw new NoidExecError(result, { command, vmName: this.name });
+    }
+    return result;
+  }
+
+  /**
+   * Execute a command over WebSocket and capture complete stdout and stderr.
+   * Unlike exec(), output is not truncated by the server's `max_exec_output_bytes`
+   * and stderr is kept separate. Use `maxOutputBytes` to bound memory. Stdin gets
+   * `input` (if any) and is then closed, so commands that read it do not hang.
+   */
+  run(
+    command: string[],
+    options?: RunOptions & { encoding?: BufferEncoding },
+  ): Promise<RunResult<string>>;
+  run(command: string[], options: RunOptions & { encoding: 'buffer' }): Promise<RunResult<Buffer>>;
+  async run(command: string[], options?: RunOptions): Promise<RunResult<string | Buffer>> {
+    if (
+      options?.maxOutputBytes !== undefined &&
+      (!Number.isInteger(options.maxOutputBytes) || options.maxOutputBytes < 0)
+    ) {
+      throw new NoidValidationError('maxOutputBytes', 'Must be a non-negative integer');
+    }
+
+    const cmd = this.spawn(command, options);
+    const stdout = new OutputBuffer(options?.maxOutputBytes);
+    const stderr = new OutputBuffer(options?.maxOutputBytes);
+    cmd.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    cmd.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+    cmd.stdin.end(options?.input);
+
+    await cmd.start();
+    const [exitCode] = await Promise.all([cmd.wait(), finished(cmd.stdout), finished(cmd.stderr)]);
+    const status = cmd.exitStatus() as ExitStatus;
+    const encoding = options?.encoding ?? 'utf8';
+    const decode = (buf: OutputBuffer) =>
+      encoding === 'buffer' ? buf.toBuffer() : buf.toBuffer().toString(encoding);
+
+    return {
+      stdout: decode(stdout),
+      stderr: decode(stderr),
+      exitCode,
+      timedOut: status.timedOut,
+      truncated: stdout.truncated || stderr.truncated,
+    };
   }
 
   /**
@@ -70,18 +275,138 @@ export class Vm {
    */
   spawn(command: string[], options?: SpawnOptions): VmCommand {
     if (options?.env) validateEnvVars(options.env);
+    if (options?.rows !== undefined || options?.cols !== undefined) {
+      validateTtySize(options.cols ?? 80, options.rows ?? 24);
+    }
     return new VmCommand(this, command, options);
   }
 
+  /**
+   * Run a shell script built from a tagged template, via run().
+   * Interpolated values are POSIX-quoted; arrays expand to one word per item and
+   * `rawShell()` opts out. Call with options first to pick the shell or directory:
+   *
+   *   await vm.sh`tar -czf ${archive} ${files}`;
+   *   await vm.sh({ cwd: '/app', check: true })`npm ci && npm test -- ${pattern}`;
+   */
+  sh(strings: TemplateStringsArray, ...values: ShellValue[]): Promise<RunResult<string>>;
+  sh(
+    options: ShellRunOptions,
+  ): (strings: TemplateStringsArray, ...values: ShellValue[]) => Promise<RunResult<string>>;
+  sh(
+    first: TemplateStringsArray | ShellRunOptions,
+    ...values: ShellValue[]
+  ):
+    | Promise<RunResult<string>>
+    | ((strings: TemplateStringsArray, ...values: ShellValue[]) => Promise<RunResult<string>>) {
+    if (isTemplateStrings(first)) {
+      return this.run(shellCommand(buildShellScript(first, values)));
+    }
+    return (strings, ...vals) =>
+      this.run(shellCommand(buildShellScript(strings, vals), first), first);
+  }
+
+  /**
+   * Spawn a shell script built from a tagged template; the streaming counterpart of sh().
+   *
+   *   const cmd = vm.spawnSh({ tty: true })`tail -f ${logFile} | grep ${pattern}`;
+   */
+  spawnSh(strings: TemplateStringsArray, ...values: ShellValue[]): VmCommand;
+  spawnSh(
+    options: ShellSpawnOptions,
+  ): (strings: TemplateStringsArray, ...values: ShellValue[]) => VmCommand;
+  spawnSh(
+    first: TemplateStringsArray | ShellSpawnOptions,
+    ...values: ShellValue[]
+  ): VmCommand | ((strings: TemplateStringsArray, ...values: ShellValue[]) => VmCommand) {
+    if (isTemplateStrings(first)) {
+      return this.spawn(shellCommand(buildShellScript(first, values)));
+    }
+    return (strings, ...vals) =>
+      this.spawn(shellCommand(buildShellScript(strings, vals), first), first);
+  }
+
   /**
    * Attach an interactive console session (WebSocket).
    * Returns immediately — call .start() to connect.
    */
   console(options?: ConsoleOptions): VmConsole {
     if (options?.env) validateEnvVars(options.env);
+    if (options?.rows !== undefined || options?.cols !== undefined) {
+      validateTtySize(options.cols ?? 80, options.rows ?? 24);
+    }
     return new VmConsole(this, options);
   }
 
+  // ─── File transfer ───
+
+  /**
+   * Upload a local file or directory into the VM as a streamed tar archive.
+   * Modes and symlinks are preserved. A directory's contents land in `remotePath`
+   * (created if missing); a file is written to `remotePath`, or inside it if it ends in '/'.
+   * A Readable source is read as a tar archive and extracted into `remotePath`.
+   * Requires `tar` in the guest.
+   */
+  upload(
+    source: string | Readable,
+    remotePath: string,
+    options?: TransferOptions,
+  ): Promise<TransferResult> {
+    return uploadToVm(this, source, remotePath, options);
+  }
+
+  /**
+   * Download a file or directory from the VM as a streamed tar archive.
+   * A directory's contents land in `localPath` (created if missing); a file is written
+   * to `localPath`, or inside it if it is an existing directory. A Writable target
+   * receives the tar archive itself. Requires `tar` in the guest.
+   */
+  download(
+    remotePath: string,
+    target: string | Writable,
+    options?: TransferOptions,
+  ): Promise<TransferResult> {
+    return downloadFromVm(this, remotePath, target, options);
+  }
+
+  /**
+   * Make `remoteDir` match `localDir`, uploading only files whose content, symlink
+   * target or executable bit differ. Both sides are hashed (sha256); the guest needs
+   * `find`, `sha256sum` and `tar`. Empty directories are not synced.
+   */
+  sync(localDir: string, remoteDir: string, options?: SyncOptions): Promise<SyncResult> {
+    return syncToVm(this, localDir, remoteDir, options);
+  }
+
+  /**
+   * Sync now, then again whenever files under `localDir` change.
+   * Listen for 'sync' and 'error' (failures are dropped without an 'error' listener);
+   * call close() (or abort `signal`) to stop. Throws NoidValidationError if `localDir`
+   * is not a directory.
+   */
+  watchSync(localDir: string, remoteDir: string, options?: WatchSyncOptions): VmSyncWatcher {
+    return new VmSyncWatcher(this, localDir, remoteDir, options);
+  }
+
+  // ─── Port forwarding ───
+
+  /**
+   * Forward a local TCP port to `remotePort` inside the VM.
+   * Each connection runs a relay in the guest (socat, nc or bash) over the exec WebSocket,
+   * so it works wherever the noid API is reachable. Resolves once listening.
+   *
+   *   const fwd = await vm.forward({ localPort: 8080, remotePort: 3000 });
+   *   // ... http://127.0.0.1:8080 reaches port 3000 in the VM
+   *   await fwd.close();
+   */
+  async forward(options: ForwardOptions): Promise<VmPortForward> {
+    validatePort('remotePort', options.remotePort);
+    if (options.localPort !== undefined) validatePort('localPort', options.localPort, true);
+    const forward = new VmPortForward(this, options);
+    await forward._listen();
+    return forward;
+  }
+
   // ─── Checkpoints ───
 
   async createCheckpoint(options?: CreateCheckpointOptions): Promise<CheckpointInfo> {
@@ -89,35 +414,233 @@ export class Vm {
       'POST',
       `/v1/vms/${encodeURIComponent(this.name)}/checkpoints`,
       { label: options?.label },
+      { retry: options?.retry, signal: options?.signal },
     );
   }
 
-  async listCheckpoints(): Promise<CheckpointInfo[]> {
+  async listCheckpoints(options?: AbortOptions): Promise<CheckpointInfo[]> {
     return this.client.fetch<CheckpointInfo[]>(
       'GET',
       `/v1/vms/${encodeURIComponent(this.name)}/checkpoints`,
+      undefined,
+      { signal: options?.signal },
     );
   }
 
+  async getCheckpoint(checkpointId: string, options?: AbortOptions): Promise<CheckpointInfo> {
+    return this.client.fetch<CheckpointInfo>('GET', this.checkpointPath(checkpointId), undefined, {
+      signal: options?.signal,
+    });
+  }
+
+  async deleteCheckpoint(checkpointId: string, options?: AbortOptions): Promise<void> {
+    await this.client.fetch<void>('DELETE', this.checkpointPath(checkpointId), undefined, {
+      signal: options?.signal,
+    });
+  }
+
+  /**
+   * Delete old checkpoints. Of the checkpoints matching `labelPattern` (all if unset),
+   * the newest `keepLast` are kept and the rest are deleted, limited to those created
+   * before `olderThan` when given. At least one of `keepLast` and `olderThan` is required.
+   */
+  async pruneCheckpoints(options: PruneCheckpointsOptions): Promise<PruneCheckpointsResult> {
+    const { keepLast, olderThan, labelPattern } = options;
+    if (keepLast === undefined && olderThan === undefined) {
+      throw new NoidValidationError('keepLast', 'Set keepLast, olderThan or both');
+    }
+    if (keepLast !== undefined && !(Number.isInteger(keepLast) && keepLast >= 0)) {
+      throw new NoidValidationError('keepLast', 'Must be a non-negative integer');
+    }
+    const cutoff = olderThan instanceof Date ? olderThan.getTime() : Date.now() - (olderThan ?? 0);
+    if (Number.isNaN(cutoff) || (typeof olderThan === 'number' && !(olderThan >= 0))) {
+      throw new NoidValidationError('olderThan', 'Must be a valid Date or a non-negative number');
+    }
+
+    const pattern = labelPattern && withoutState(labelPattern);
+    const matching = (await this.listCheckpoints(options))
+      .filter((cp) => !pattern || (cp.label !== null && pattern.test(cp.label)))
+      .sort(byCreatedAt);
+    const deletable = matching.length - Math.min(keepLast ?? 0, matching.length);
+    const result: PruneCheckpointsResult = {
+      deleted: [],
+      kept: [],
+      failed: [],
+      dryRun: options.dryRun ?? false,
+    };
+    matching.forEach((cp, i) => {
+      const expired = olderThan === undefined || Date.parse(cp.created_at) < cutoff;
+      (i < deletable && expired ? result.deleted : result.kept).push(cp);
+    });
+    if (result.dryRun) return result;
+
+    const candidates = result.deleted;
+    result.deleted = [];
+    for (const checkpoint of candidates) {
+      try {
+        await this.deleteCheckpoint(checkpoint.id, options);
+        result.deleted.push(checkpoint);
+      } catch (err) {
+        if (err instanceof NoidAbortError) throw err;
+        if (err instanceof NoidAPIError && err.isNotFound()) {
+          result.deleted.push(checkpoint); // Already gone
+        } else {
+          result.failed.push({ checkpoint, error: err as Error });
+        }
+      }
+    }
+    return result;
+  }
+
   /**
-   * Restore VM from a checkpoint.
+   * Restore VM from a checkpoint, given by id, CheckpointInfo or `{ label }`
+   * (the newest checkpoint with that label).
    * Returns a Vm handle for the restored VM.
    */
-  async restore(checkpointId: string, options?: RestoreOptions): Promise<Vm> {
+  async restore(checkpoint: CheckpointRef, options?: RestoreOptions): Promise<Vm> {
     const body = {
-      checkpoint_id: checkpointId,
+      checkpoint_id: await this.resolveCheckpoint(checkpoint, options),
       new_name: options?.newName,
     };
     const info = await this.client.fetch<VmInfo>(
       'POST',
       `/v1/vms/${encodeURIComponent(this.name)}/restore`,
       body,
+      { retry: options?.retry, signal: options?.signal },
     );
+    if (options?.newName !== undefined) this.client._trackCreated(options.newName);
     const restoredName = options?.newName ?? this.name;
     const vm = new Vm(restoredName, this.client);
     vm._setInfo(info);
     return vm;
   }
+
+  /**
+   * Checkpoint this VM and restore the checkpoint into `count` new VMs, at most
+   * `concurrency` at a time. If any restore fails (or the signal aborts), clones
+   * already created are destroyed and the error is rethrown. The checkpoint is
+   * left in place; prune it by its label once the clones are gone.
+   */
+  async fork(count: number, options?: ForkOptions): Promise<Vm[]> {
+    if (!(Number.isInteger(count) && count > 0)) {
+      throw new NoidValidationError('count', 'Must be a positive integer');
+    }
+    const concurrency = options?.concurrency ?? DEFAULT_FORK_CONCURRENCY;
+    if (!(Number.isInteger(concurrency) && concurrency > 0)) {
+      throw new NoidValidationError('concurrency', 'Must be a positive integer');
+    }
+    const runId = randomBytes(3).toString('hex');
+    const names = Array.from(
+      { length: count },
+      (_, i) => `${options?.namePrefix ?? this.name}-${runId}-${i + 1}`,
+    );
+    for (const name of names) validateVmName(name);
+
+    const checkpoint = await this.createCheckpoint({
+      label: options?.label ?? `fork-${runId}`,
+      signal: options?.signal,
+    });
+    const clones: Vm[] = new Array(count);
+    const created: Vm[] = [];
+    let next = 0;
+    let failure: unknown;
+    const worker = async () => {
+      while (failure === undefined && next < count) {
+        const i = next++;
+        try {
+          const clone = await this.restore(checkpoint.id, {
+            newName: names[i],
+            signal: options?.signal,
+          });
+          clones[i] = clone;
+          created.push(clone);
+        } catch (err) {
+          failure ??= err;
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, count) }, worker));
+    if (failure === undefined) return clones;
+
+    // Roll back without the caller's signal, which may be what aborted the fork
+    const results = await Promise.allSettled(created.map((clone) => clone.destroy()));
+    const leaked = created.filter((_, i) => results[i].status === 'rejected');
+    if (leaked.length > 0) {
+      throw new NoidError(
+        `Fork of VM '${this.name}' failed and clones could not be destroyed: ` +
+          leaked.map((clone) => clone.name).join(', '),
+        { cause: failure as Error },
+      );
+    }
+    throw failure;
+  }
+
+  private async resolveCheckpoint(ref: CheckpointRef, options?: AbortOptions): Promise<string> {
+    if (typeof ref === 'string') return ref;
+    if ('id' in ref) return ref.id;
+    const labelled = (await this.listCheckpoints(options)).filter((cp) => cp.label === ref.label);
+    const newest = labelled.sort(byCreatedAt).at(-1);
+    if (!newest) {
+      throw new NoidError(`VM '${this.name}' has no checkpoint labelled '${ref.label}'`);
+    }
+    return newest.id;
+  }
+
+  private checkpointPath(checkpointId: string): string {
+    return `/v1/vms/${encodeURIComponent(this.name)}/checkpoints/${encodeURIComponent(checkpointId)}`;
+  }
+}
+
+/** Oldest checkpoint first. */
+function byCreatedAt(a: CheckpointInfo, b: CheckpointInfo): number {
+  return Date.parse(a.created_at) - Date.parse(b.created_at);
+}
+
+/** Errors a VM that is still booting or restoring can produce. */
+function isTransientProbeError(err: unknown): err is NoidAPIError | NoidConnectionError {
+  if (err instanceof NoidConnectionError) return true;
+  return err instanceof NoidAPIError && (err.isConflict() || err.statusCode >= 500);
+}
+
+/**
+ * Wrap a script as `[shell, '-c', script]`, changing directory first if asked.
+ * The `cd` is its own statement so a failure stops the whole script, not just its
+ * first command.
+ */
+function shellCommand(script: string, options?: ShellOptions): string[] {
+  const body = options?.cwd ? `cd -- ${quoteShellArg(options.cwd)} || exit 1\n${script}` : script;
+  return [options?.shell ?? 'sh', '-c', body];
+}
+
+/** Accumulates output chunks up to an optional byte limit. */
+class OutputBuffer {
+  private readonly chunks: Buffer[] = [];
+  private readonly limit?: number;
+  private size = 0;
+  truncated = false;
+
+  constructor(limit?: number) {
+    this.limit = limit;
+  }
+
+  push(chunk: Buffer): void {
+    if (this.limit === undefined) {
+      this.chunks.push(chunk);
+      return;
+    }
+    const room = this.limit - this.size;
+    if (chunk.length > room) {
+      this.truncated = true;
+      if (room <= 0) return;
+      chunk = chunk.subarray(0, room);
+    }
+    this.chunks.push(chunk);
+    this.size += chunk.length;
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
 }
 
 /** Convert { KEY: "value" } to ["KEY=value", ...] */